@@ -8,7 +8,9 @@
  * @module
  */
 
+import type * as benchmark from "../benchmark.js";
 import type * as http from "../http.js";
+import type * as myTraces from "../myTraces.js";
 import type * as seed from "../seed.js";
 import type * as shop from "../shop.js";
 import type * as tracer from "../tracer.js";
@@ -20,7 +22,9 @@ import type {
 } from "convex/server";
 
 declare const fullApi: ApiFromModules<{
+  benchmark: typeof benchmark;
   http: typeof http;
+  myTraces: typeof myTraces;
   seed: typeof seed;
   shop: typeof shop;
   tracer: typeof tracer;
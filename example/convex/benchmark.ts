@@ -0,0 +1,53 @@
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import {
+  headSampledAction,
+  headSampledMutation,
+  internalTracedQuery,
+  tracedMutation,
+} from "./tracer";
+
+// Small traced functions for counting the calls a traced invocation makes
+// to the tracer component
+
+export const lookupProduct = internalTracedQuery({
+  name: "lookupProduct",
+  args: { fail: v.optional(v.boolean()) },
+  bufferWrites: true,
+  handler: async (ctx, { fail }) => {
+    await ctx.tracer.info("Looking up product");
+    if (fail) throw new Error("Product not found");
+    return await ctx.db.query("products").first();
+  },
+});
+
+export const checkout = tracedMutation({
+  name: "checkout",
+  bufferWrites: true,
+  handler: async (ctx) => {
+    await ctx.tracer.info("Checking out");
+    await ctx.runTracedQuery(internal.benchmark.lookupProduct, {});
+  },
+});
+
+export const sampledCheckout = headSampledMutation({
+  name: "sampledCheckout",
+  args: { fail: v.boolean(), failLookup: v.optional(v.boolean()) },
+  handler: async (ctx, { fail, failLookup }) => {
+    await ctx.tracer.info("Checking out");
+    await ctx.runTracedQuery(internal.benchmark.lookupProduct, {
+      fail: failLookup,
+    });
+    if (fail) throw new Error("Payment declined");
+  },
+});
+
+export const sampledQuote = headSampledAction({
+  name: "sampledQuote",
+  handler: async (ctx) => {
+    const response = await ctx.tracer.fetch(
+      "https://shipping.example.com/v1/quotes",
+    );
+    return response.status;
+  },
+});
@@ -1,5 +1,49 @@
 import { httpRouter } from "convex/server";
+import { api } from "./_generated/api";
+import {
+  headSampledHttpAction,
+  otlpHttpAction,
+  tracedHttpAction,
+} from "./tracer";
 
 const http = httpRouter();
 
+http.route({
+  path: "/traces/otlp",
+  method: "GET",
+  handler: otlpHttpAction({
+    serviceName: "convex-tracer-example",
+    authorize: (ctx, request) =>
+      !!process.env.OTLP_TOKEN &&
+      request.headers.get("Authorization") ===
+        `Bearer ${process.env.OTLP_TOKEN}`,
+  }),
+});
+
+http.route({
+  path: "/webhooks/inventory",
+  method: "POST",
+  handler: tracedHttpAction({
+    handler: async (ctx, request) => {
+      const { source } = await request.json();
+      await ctx.tracer.info("Inventory webhook received", { source });
+
+      const products = await ctx.runTracedQuery(api.shop.getProducts, {});
+      return Response.json({ products: products.data?.length ?? 0 });
+    },
+  }),
+});
+
+http.route({
+  path: "/health",
+  method: "GET",
+  handler: headSampledHttpAction({
+    sampleRate: 0.1,
+    handler: async (ctx) => {
+      await ctx.tracer.info("Health check");
+      return new Response("ok");
+    },
+  }),
+});
+
 export default http;
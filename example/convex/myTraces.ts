@@ -0,0 +1,16 @@
+import { tracer } from "./tracer";
+
+// Each signed-in user only reaches their own traces, with the default "self"
+// scope; anonymous callers are turned away.
+export const {
+  listTraces,
+  listTracesPaginated,
+  searchTraces,
+  searchTracesPaginated,
+  findTracesByTag,
+  getTrace,
+  preserveTrace,
+  deleteTrace,
+} = tracer.api({
+  authorize: async (ctx) => (await ctx.auth.getUserIdentity()) !== null,
+});
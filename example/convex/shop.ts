@@ -1,9 +1,11 @@
 import { ConvexError, v } from "convex/values";
 import { api, internal } from "./_generated/api";
 import { Id } from "./_generated/dataModel";
+import { internalQuery } from "./_generated/server";
 import {
   internalTracedMutation,
   internalTracedQuery,
+  reactiveTracedQuery,
   tracedAction,
   tracedMutation,
   tracedQuery,
@@ -54,6 +56,25 @@ export const getProducts = tracedQuery({
   },
 });
 
+// ============================================================================
+// REACTIVE QUERY: Watch Products
+// ============================================================================
+export const watchProducts = reactiveTracedQuery({
+  name: "watchProducts",
+  handler: async (ctx) => {
+    const products = await ctx.tracer.withSpan("loadProducts", async (span) => {
+      const products = await ctx.db.query("products").collect();
+      await span.info("products loaded", { count: products.length });
+      return products;
+    });
+
+    if (products.length === 0) {
+      await ctx.tracer.warn("No products found");
+    }
+    return products;
+  },
+});
+
 // ============================================================================
 // QUERY: Get Product with Inventory Check
 // ============================================================================
@@ -64,6 +85,7 @@ export const getProductWithInventory = tracedQuery({
   logArgs: ["productId"],
   logReturn: true,
   sampleRate: 0.5,
+  instrumentDb: true,
   onSuccess: async (ctx, args, result) => {
     if (result.inventory < 10) {
       await ctx.tracer.warn("Low inventory detected", {
@@ -287,7 +309,10 @@ export const reserveInventory = internalTracedMutation({
     ),
     orderId: v.id("orders"),
   },
+  returns: v.array(v.object({ productId: v.string(), quantity: v.number() })),
   logArgs: ["orderId"],
+  // Rethrowing rolls back the items reserved before one runs out.
+  resultMode: "throw",
   handler: async (ctx, { items, orderId }) => {
     await ctx.tracer.info("Starting inventory reservation", {
       orderId,
@@ -358,6 +383,11 @@ export const reserveInventory = internalTracedMutation({
 // ============================================================================
 // ACTION: Send Order Notification
 // ============================================================================
+export const getOrder = internalQuery({
+  args: { orderId: v.id("orders") },
+  handler: async (ctx, { orderId }) => await ctx.db.get("orders", orderId),
+});
+
 export const sendOrderNotification = tracedAction({
   name: "sendOrderNotification",
   args: {
@@ -365,12 +395,17 @@ export const sendOrderNotification = tracedAction({
     customerEmail: v.string(),
     orderTotal: v.number(),
   },
+  logArgs: ["orderId"],
   handler: async (ctx, { orderId, customerEmail, orderTotal }) => {
     await ctx.tracer.info("Sending order notification", {
       orderId,
       customerEmail,
     });
 
+    // Plain function calls show up as spans too
+    const order = await ctx.runQuery(internal.shop.getOrder, { orderId });
+    if (!order) throw new ConvexError({ code: "NOT_FOUND", orderId });
+
     // Simulate email sending
     await ctx.tracer.withSpan("sendEmail", async (span) => {
       await span.updateMetadata({
@@ -403,6 +438,28 @@ export const sendOrderNotification = tracedAction({
   },
 });
 
+// ============================================================================
+// ACTION: Quote Shipping (outbound HTTP call)
+// ============================================================================
+export const quoteShipping = tracedAction({
+  name: "quoteShipping",
+  args: { postcode: v.string(), weightKg: v.number() },
+  returns: v.object({ price: v.number() }),
+  logReturn: true,
+  handler: async (ctx, { postcode, weightKg }) => {
+    const params = new URLSearchParams({ postcode, weight: String(weightKg) });
+    const response = await ctx.tracer.fetch(
+      `https://shipping.example.com/v1/quotes?${params}`,
+    );
+    if (!response.ok) {
+      throw new Error(`Shipping quote failed with ${response.status}`);
+    }
+
+    const { price } = (await response.json()) as { price: number };
+    return { price };
+  },
+});
+
 // ============================================================================
 // MAIN MUTATION: Create Order (Multi-Depth Orchestration)
 // ============================================================================
@@ -420,6 +477,7 @@ export const createOrder = tracedMutation({
   },
   logArgs: ["customerId"],
   onStart: async (ctx, args) => {
+    await ctx.tracer.setTraceMetadata({ customerId: args.customerId });
     await ctx.tracer.info("Order creation initiated", {
       customerId: args.customerId,
       itemCount: args.items.length,
@@ -502,6 +560,8 @@ export const createOrder = tracedMutation({
         });
 
         await span.updateMetadata({ orderId: id, total, status: "pending" });
+        await span.setTraceMetadata({ orderId: id });
+        await span.tag("orderId", id);
         return id;
       },
     );
@@ -509,12 +569,12 @@ export const createOrder = tracedMutation({
     // Step 4: Reserve inventory
     await ctx.tracer.info("Step 4: Reserving inventory");
 
-    const inventoryResult = await ctx.runTracedMutation(
-      internal.shop.reserveInventory,
-      { items, orderId: orderRecordId },
-    );
-
-    if (!inventoryResult.success) {
+    try {
+      await ctx.runTracedMutation(internal.shop.reserveInventory, {
+        items,
+        orderId: orderRecordId,
+      });
+    } catch (error) {
       // Rollback: Update order status to failed
       await ctx.db.patch(orderRecordId, { status: "inventory_failed" });
       await ctx.tracer.error("Inventory reservation failed", {
@@ -522,7 +582,7 @@ export const createOrder = tracedMutation({
       });
       throw new ConvexError({
         code: "INVENTORY_RESERVATION_FAILED",
-        details: inventoryResult.error,
+        details: error instanceof ConvexError ? error.data : String(error),
       });
     }
 
@@ -563,14 +623,10 @@ export const createOrder = tracedMutation({
     await ctx.tracer.info("Step 7: Scheduling notifications");
 
     const customer = validationResult.data.customer;
-    await ctx.scheduler.runAfter(0, api.shop.sendOrderNotification, {
+    await ctx.runTracedAfter(0, api.shop.sendOrderNotification, {
       orderId: orderRecordId,
       customerEmail: customer.email,
       orderTotal: total,
-      __traceContext: {
-        traceId: ctx.tracer.getTraceId(),
-        spanId: ctx.tracer.getSpanId(),
-      },
     });
 
     await ctx.tracer.info("Order processing complete", {
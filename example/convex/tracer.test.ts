@@ -0,0 +1,749 @@
+import { toOtlpSpanId, toOtlpTraceId } from "convex-tracer";
+import { ConvexError } from "convex/values";
+import { afterEach, beforeEach, expect, test, vi } from "vitest";
+import { api, internal } from "./_generated/api";
+import { initConvexTest } from "./setup.test";
+import { quoteShipping, reserveInventory } from "./shop";
+
+// The signed-in caller of the traced functions
+const user = { subject: "user1" };
+
+// Keep scheduled cleanups and metric rollups from running mid-test
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+test("frontend spans start a trace that backend calls nest under", async () => {
+  const t = initConvexTest().withIdentity(user);
+
+  const root = await t.mutation(api.tracer.startFrontendSpan, {
+    name: "checkout-click",
+    startTime: Date.now(),
+  });
+  const child = await t.mutation(api.tracer.startFrontendSpan, {
+    name: "validate-cart",
+    startTime: Date.now(),
+    parent: root,
+  });
+  await t.mutation(api.shop.getCustomers, { __traceContext: child });
+
+  await t.mutation(api.tracer.finishFrontendSpan, {
+    context: child,
+    endTime: Date.now(),
+    duration: 1,
+    status: "success",
+  });
+  await expect(
+    t.query(api.tracer.getTrace, { traceId: root.traceId }),
+  ).resolves.toMatchObject({ status: "pending" });
+  await t.mutation(api.tracer.finishFrontendSpan, {
+    context: root,
+    endTime: Date.now(),
+    duration: 2,
+    status: "success",
+    logs: [{ timestamp: Date.now(), severity: "info", message: "clicked" }],
+    metadata: { items: 2 },
+  });
+
+  const trace = await t.query(api.tracer.getTrace, { traceId: root.traceId });
+  expect(trace?.status).toBe("success");
+
+  const [rootSpan] = trace!.spans;
+  expect(rootSpan).toMatchObject({
+    spanName: "checkout-click",
+    source: "frontend",
+    status: "success",
+    metadata: { items: 2 },
+  });
+  expect(rootSpan.logs?.[0].message).toBe("clicked");
+
+  const [childSpan] = rootSpan.children!;
+  expect(childSpan).toMatchObject({ spanName: "validate-cart" });
+  const [backendSpan] = childSpan.children!;
+  expect(backendSpan).toMatchObject({
+    spanName: "getCustomers",
+    source: "backend",
+  });
+
+  // Spans can only be finished once, and backend spans not at all
+  await expect(
+    t.mutation(api.tracer.finishFrontendSpan, {
+      context: root,
+      endTime: Date.now(),
+      duration: 2,
+      status: "error",
+    }),
+  ).rejects.toThrow("Span already completed");
+  await expect(
+    t.mutation(api.tracer.finishFrontendSpan, {
+      context: { ...child, spanId: backendSpan._id },
+      endTime: Date.now(),
+      duration: 2,
+      status: "error",
+    }),
+  ).rejects.toThrow("Not a frontend span");
+});
+
+test("unsigned contexts can't end the span they join", async () => {
+  const t = initConvexTest().withIdentity(user);
+
+  const root = await t.mutation(api.tracer.startFrontendSpan, {
+    name: "checkout-click",
+    startTime: Date.now(),
+  });
+  await t.mutation(api.shop.getCustomers, {
+    __traceContext: { ...root, scheduledAt: Date.now() - 1000 },
+  });
+
+  const trace = await t.query(api.tracer.getTrace, { traceId: root.traceId });
+  const [rootSpan] = trace!.spans;
+  expect(rootSpan).toMatchObject({ status: "pending" });
+  expect(rootSpan.children).toHaveLength(1);
+});
+
+test("unsigned contexts can't keep a call from being traced", async () => {
+  const t = initConvexTest().withIdentity(user);
+
+  const result = await t.mutation(api.benchmark.checkout, {
+    __traceContext: {
+      traceId: "",
+      spanId: "",
+      sampleRate: 0,
+      retentionMinutes: 1,
+      preserveErrors: false,
+      sampled: false,
+    },
+  });
+  await expect(
+    t.query(api.tracer.getTrace, { traceId: result.traceId! }),
+  ).resolves.toMatchObject({ status: "success", spanCount: 2 });
+});
+
+test("reactive traced queries return a trace that can be imported", async () => {
+  const t = initConvexTest().withIdentity(user);
+
+  const result = await t.query(api.shop.watchProducts, {});
+  expect(result.success).toBe(true);
+  expect(result.trace?.spans.map((span) => span.spanName)).toEqual([
+    "watchProducts",
+    "loadProducts",
+  ]);
+
+  const traceId = await t.mutation(api.tracer.importQueryTrace, {
+    snapshot: result.trace!,
+  });
+  const trace = await t.query(api.tracer.getTrace, { traceId: traceId! });
+  expect(trace).toMatchObject({
+    status: "success",
+    functionName: "watchProducts",
+    spanCount: 2,
+    logCount: 2,
+  });
+  expect(trace!.spans[0].children![0].logs![0].message).toBe("products loaded");
+
+  // Without a signing secret the snapshot can't be trusted to keep itself
+  const forgedId = await t.mutation(api.tracer.importQueryTrace, {
+    snapshot: { ...result.trace!, preserve: true },
+  });
+  const forged = await t.query(api.tracer.getTrace, { traceId: forgedId! });
+  expect(forged!.preserve).toBeUndefined();
+});
+
+test("traced http actions join the caller's W3C trace", async () => {
+  const t = initConvexTest().withIdentity(user);
+  const externalTraceId = "4bf92f3577b34da6a3ce929d0e0e4736";
+  const externalSpanId = "00f067aa0ba902b7";
+
+  const response = await t.fetch("/webhooks/inventory", {
+    method: "POST",
+    headers: { traceparent: `00-${externalTraceId}-${externalSpanId}-01` },
+    body: JSON.stringify({ source: "warehouse" }),
+  });
+  expect(response.status).toBe(200);
+  expect(response.headers.get("traceresponse")).toMatch(
+    new RegExp(`^00-${externalTraceId}-[0-9a-f]{16}-01$`),
+  );
+
+  const traceId = response.headers.get("X-Trace-Id")!;
+  const trace = await t.query(api.tracer.getTrace, { traceId });
+  expect(trace?.status).toBe("success");
+
+  const [rootSpan] = trace!.spans;
+  expect(rootSpan).toMatchObject({
+    spanName: "POST /webhooks/inventory",
+    metadata: { "http.response.status_code": 200 },
+  });
+  expect(rootSpan.children![0]).toMatchObject({ spanName: "getProducts" });
+
+  await expect(
+    t.fetch(`/traces/otlp?traceId=${traceId}`),
+  ).resolves.toMatchObject({ status: 401 });
+
+  vi.stubEnv("OTLP_TOKEN", "collector-token");
+  let otlp: Response;
+  try {
+    otlp = await t.fetch(`/traces/otlp?traceId=${traceId}`, {
+      headers: { Authorization: "Bearer collector-token" },
+    });
+  } finally {
+    vi.unstubAllEnvs();
+  }
+  const [resourceSpans] = (await otlp.json()).resourceSpans;
+  const [otlpRoot] = resourceSpans.scopeSpans[0].spans;
+  expect(otlpRoot).toMatchObject({
+    traceId: externalTraceId,
+    parentSpanId: externalSpanId,
+  });
+});
+
+test("ctx.tracer.fetch records outbound calls and propagates the trace", async () => {
+  const t = initConvexTest().withIdentity(user);
+  const fetchMock = vi.fn(async (_request: Request) =>
+    Response.json({ price: 12.5 }, { headers: { "Content-Length": "14" } }),
+  );
+  vi.stubGlobal("fetch", fetchMock);
+
+  try {
+    const result = await t.action(api.shop.quoteShipping, {
+      postcode: "SW1A 1AA",
+      weightKg: 2,
+    });
+    expect(result).toMatchObject({ success: true, data: { price: 12.5 } });
+  } finally {
+    vi.unstubAllGlobals();
+  }
+
+  const [trace] = await t.query(api.tracer.searchTraces, {
+    functionName: "quoteShipping",
+  });
+  const complete = await t.query(api.tracer.getTrace, { traceId: trace._id });
+  const [fetchSpan] = complete!.spans[0].children!;
+  expect(fetchSpan).toMatchObject({
+    spanName: "GET https://shipping.example.com/v1/quotes",
+    status: "success",
+    metadata: {
+      "http.request.method": "GET",
+      "url.full":
+        "https://shipping.example.com/v1/quotes?postcode=[REDACTED]&weight=[REDACTED]",
+      "http.response.status_code": 200,
+      "http.response.body.size": 14,
+    },
+  });
+
+  const [request] = fetchMock.mock.calls[0];
+  expect(request.headers.get("traceparent")).toBe(
+    `00-${toOtlpTraceId(trace._id)}-${toOtlpSpanId(fetchSpan._id)}-01`,
+  );
+});
+
+test("instrumentDb records database reads as child spans", async () => {
+  const t = initConvexTest().withIdentity(user);
+  const productId = await t.run(async (ctx) => {
+    const productId = await ctx.db.insert("products", {
+      name: "Desk Lamp",
+      description: "Adjustable LED lamp",
+      price: 45,
+      category: "home",
+      sku: "LAMP-1",
+      createdAt: Date.now(),
+    });
+    await ctx.db.insert("inventory", {
+      productId,
+      quantity: 40,
+      reserved: 0,
+      warehouseLocation: "A1",
+      lastRestocked: Date.now(),
+    });
+    return productId;
+  });
+
+  await t.mutation(api.shop.getProductWithInventory, { productId });
+
+  const [trace] = await t.query(api.tracer.searchTraces, {
+    functionName: "getProductWithInventory",
+  });
+  const complete = await t.query(api.tracer.getTrace, { traceId: trace._id });
+  // Database spans attach to the function's span, not to withSpan blocks
+  const [getSpan, inventorySpan, firstSpan] = complete!.spans[0].children!;
+  expect(getSpan).toMatchObject({
+    spanName: "db.get products",
+    metadata: {
+      "db.operation": "get",
+      "db.table": "products",
+      "db.documents": 1,
+    },
+  });
+  expect(inventorySpan.spanName).toBe("checkInventory");
+  expect(firstSpan).toMatchObject({
+    spanName: "db.first inventory",
+    metadata: { "db.index": "by_product", "db.documents": 1 },
+  });
+});
+
+test("plain runQuery calls become child spans", async () => {
+  const t = initConvexTest().withIdentity(user);
+  const orderId = await t.run(async (ctx) => {
+    const customerId = await ctx.db.insert("customers", {
+      name: "Alice Johnson",
+      email: "alice@example.com",
+      creditLimit: 5000,
+      createdAt: Date.now(),
+    });
+    return await ctx.db.insert("orders", {
+      customerId,
+      items: [],
+      total: 20,
+      status: "confirmed",
+      paymentMethod: "card",
+      createdAt: Date.now(),
+    });
+  });
+
+  const sent = t.action(api.shop.sendOrderNotification, {
+    orderId,
+    customerEmail: "alice@example.com",
+    orderTotal: 20,
+  });
+  await vi.advanceTimersByTimeAsync(300);
+  await sent;
+
+  const [trace] = await t.query(api.tracer.searchTraces, {
+    functionName: "sendOrderNotification",
+  });
+  const complete = await t.query(api.tracer.getTrace, { traceId: trace._id });
+  const [orderSpan] = complete!.spans[0].children!;
+  expect(orderSpan).toMatchObject({
+    spanName: "shop:getOrder",
+    functionName: "getOrder",
+    status: "success",
+  });
+  // The caller's logArgs key list names its own args, not getOrder's
+  expect(orderSpan.args).toBeUndefined();
+});
+
+test("failed spans keep the ConvexError name and data", async () => {
+  const t = initConvexTest().withIdentity(user);
+  const productId = await t.run(async (ctx) => {
+    const productId = await ctx.db.insert("products", {
+      name: "Desk Lamp",
+      description: "Adjustable LED lamp",
+      price: 45,
+      category: "home",
+      sku: "LAMP-1",
+      createdAt: Date.now(),
+    });
+    await ctx.db.delete(productId);
+    return productId;
+  });
+
+  const result = await t.mutation(api.shop.getProductWithInventory, {
+    productId,
+  });
+  expect(result.success).toBe(false);
+
+  const [trace] = await t.query(api.tracer.searchTraces, {
+    functionName: "getProductWithInventory",
+  });
+  expect(result.traceId).toBe(trace._id);
+  const complete = await t.query(api.tracer.getTrace, { traceId: trace._id });
+  const [exception] = complete!.spans[0].exceptions!;
+  expect(exception).toMatchObject({
+    name: "ConvexError",
+    data: { code: "NOT_FOUND", productId },
+    handled: false,
+  });
+  expect(exception.stack).toContain("ConvexError");
+});
+
+test("throwing mutations roll back and the caller records their span", async () => {
+  const t = initConvexTest().withIdentity(user);
+  const { customerId, lampId, deskId, lampInventoryId } = await t.run(
+    async (ctx) => {
+      const product = {
+        description: "Office furniture",
+        category: "home",
+        createdAt: Date.now(),
+      };
+      const lampId = await ctx.db.insert("products", {
+        ...product,
+        name: "Desk Lamp",
+        price: 45,
+        sku: "LAMP-1",
+      });
+      const deskId = await ctx.db.insert("products", {
+        ...product,
+        name: "Standing Desk",
+        price: 300,
+        sku: "DESK-1",
+      });
+      const inventory = {
+        reserved: 0,
+        warehouseLocation: "A1",
+        lastRestocked: Date.now(),
+      };
+      const lampInventoryId = await ctx.db.insert("inventory", {
+        ...inventory,
+        productId: lampId,
+        quantity: 20,
+      });
+      await ctx.db.insert("inventory", {
+        ...inventory,
+        productId: deskId,
+        quantity: 1,
+      });
+      const customerId = await ctx.db.insert("customers", {
+        name: "Ada",
+        email: "ada@example.com",
+        creditLimit: 5000,
+        createdAt: Date.now(),
+      });
+      return { customerId, lampId, deskId, lampInventoryId };
+    },
+  );
+
+  const result = await t.mutation(api.shop.createOrder, {
+    customerId,
+    items: [{ productId: deskId, quantity: 3 }],
+    paymentMethod: "card",
+  });
+  expect(result).toMatchObject({ success: false });
+
+  const [trace] = await t.query(api.tracer.searchTraces, {
+    functionName: "createOrder",
+  });
+  expect(trace.metadata).toEqual({
+    customerId,
+    orderId: expect.any(String),
+  });
+  await expect(
+    t.query(api.tracer.listTraces, { metadata: { customerId } }),
+  ).resolves.toMatchObject([{ _id: trace._id }]);
+  const complete = await t.query(api.tracer.getTrace, { traceId: trace._id });
+  const reserve = complete!.spans[0].children!.find(
+    (span) => span.spanName === "shop:reserveInventory",
+  );
+  // Counted in the metrics under the name reserveInventory traces itself as
+  expect(reserve).toMatchObject({
+    functionName: "reserveInventory",
+    status: "error",
+    children: [],
+  });
+  expect(reserve!.exceptions![0]).toMatchObject({
+    name: "ConvexError",
+    handled: false,
+  });
+
+  // Called directly, a throw-mode mutation returns its value unwrapped and
+  // a failure rolls back the items reserved before it.
+  const order = await t.run(
+    async (ctx) => await ctx.db.query("orders").first(),
+  );
+  expect(order?.status).toBe("inventory_failed");
+  await expect(
+    t.query(api.tracer.findTracesByTag, { key: "orderId", value: order!._id }),
+  ).resolves.toMatchObject([{ _id: trace._id }]);
+  await expect(
+    t.mutation(internal.shop.reserveInventory, {
+      items: [{ productId: lampId, quantity: 1 }],
+      orderId: order!._id,
+    }),
+  ).resolves.toEqual([{ productId: lampId, quantity: 1 }]);
+  await expect(
+    t.mutation(internal.shop.reserveInventory, {
+      items: [
+        { productId: lampId, quantity: 2 },
+        { productId: deskId, quantity: 3 },
+      ],
+      orderId: order!._id,
+    }),
+  ).rejects.toThrow(ConvexError);
+
+  // convex-test hands ConvexError data over as JSON, like the wire format.
+  const error = await t
+    .mutation(internal.shop.reserveInventory, {
+      items: [{ productId: deskId, quantity: 3 }],
+      orderId: order!._id,
+    })
+    .then(
+      () => undefined,
+      (error: ConvexError<string>) => error,
+    );
+  // Its trace was rolled back with it, so there is no traceId to refer to.
+  const data = JSON.parse(error!.data);
+  expect(data).toMatchObject({ code: "INSUFFICIENT_INVENTORY" });
+  expect(data.traceId).toBeUndefined();
+
+  const lampInventory = await t.run(
+    async (ctx) => await ctx.db.get(lampInventoryId),
+  );
+  expect(lampInventory).toMatchObject({ quantity: 19, reserved: 1 });
+});
+
+test("returns validators are wrapped in the traced result", () => {
+  // The returns validator Convex reads from a registered function.
+  const exportReturns = (fn: unknown) =>
+    JSON.parse((fn as { exportReturns(): string }).exportReturns());
+
+  const envelope = exportReturns(quoteShipping);
+  expect(envelope.type).toBe("union");
+  expect(envelope.value.map((o: any) => o.value.success.fieldType)).toEqual([
+    { type: "literal", value: true },
+    { type: "literal", value: false },
+  ]);
+  expect(envelope.value[0].value.data.fieldType).toEqual({
+    type: "object",
+    value: {
+      price: { fieldType: { type: "number" }, optional: false },
+    },
+  });
+  expect(Object.keys(envelope.value[1].value)).toEqual([
+    "success",
+    "error",
+    "traceId",
+    "spanId",
+  ]);
+
+  // Throw mode returns the handler's value, so `returns` is used as is.
+  expect(exportReturns(reserveInventory).type).toBe("array");
+});
+
+/**
+ * Counts the calls made into the tracer component, which convex-test routes
+ * through the `runUdf` syscall.
+ */
+function countTracerCalls() {
+  const convex = (globalThis as any).Convex;
+  const asyncSyscall = convex.asyncSyscall;
+  const calls: string[] = [];
+
+  convex.asyncSyscall = async (op: string, jsonArgs: string) => {
+    const { reference } = JSON.parse(jsonArgs);
+    if (reference?.startsWith("_reference/childComponent/tracer/")) {
+      calls.push(reference.split("/").pop());
+    }
+    return await asyncSyscall(op, jsonArgs);
+  };
+  return calls;
+}
+
+test("traced functions make two component calls each", async () => {
+  const t = initConvexTest().withIdentity(user);
+  const calls = countTracerCalls();
+
+  const result = await t.mutation(api.benchmark.checkout, {});
+  expect(result.success).toBe(true);
+  expect(calls).toEqual(["startTrace", "startSpan", "finish", "finish"]);
+
+  const trace = await t.query(api.tracer.getTrace, {
+    traceId: result.traceId!,
+  });
+  expect(trace).toMatchObject({ status: "success", spanCount: 2 });
+  expect(trace!.spans[0].children![0].logs![0].message).toBe(
+    "Looking up product",
+  );
+});
+
+test("head sampling writes nothing for unsampled traces that succeed", async () => {
+  const t = initConvexTest().withIdentity(user);
+  const calls = countTracerCalls();
+  const random = vi.spyOn(Math, "random");
+
+  try {
+    random.mockReturnValue(0);
+    const sampled = await t.mutation(api.benchmark.sampledCheckout, {
+      fail: false,
+    });
+    expect(calls).toEqual(["startTrace", "startSpan", "finish", "finish"]);
+    await expect(
+      t.query(api.tracer.getTrace, { traceId: sampled.traceId! }),
+    ).resolves.toMatchObject({ sampleRate: 1, spanCount: 2 });
+
+    calls.length = 0;
+    random.mockReturnValue(0.99);
+    const unsampled = await t.mutation(api.benchmark.sampledCheckout, {
+      fail: false,
+    });
+    expect(unsampled.success).toBe(true);
+    expect(unsampled.traceId).toBeUndefined();
+    expect(calls).toEqual([]);
+
+    // preserveErrors keeps the failed trace, written in a single call
+    const failed = await t.mutation(api.benchmark.sampledCheckout, {
+      fail: true,
+    });
+    expect(calls).toEqual(["finish"]);
+
+    const trace = await t.query(api.tracer.getTrace, {
+      traceId: failed.traceId!,
+    });
+    expect(trace).toMatchObject({ status: "error", preserve: true });
+    expect(trace!.spans[0]).toMatchObject({
+      spanName: "sampledCheckout",
+      error: "Payment declined",
+      logs: [{ message: "Checking out" }],
+    });
+    expect(trace!.spans[0].children![0]).toMatchObject({
+      spanName: "benchmark:lookupProduct",
+      status: "success",
+    });
+
+    // A called function's failure keeps the trace through the span its
+    // caller records, but what it logged itself was never written
+    const lookupFailed = await t.mutation(api.benchmark.sampledCheckout, {
+      fail: false,
+      failLookup: true,
+    });
+    const lookupTrace = await t.query(api.tracer.getTrace, {
+      traceId: lookupFailed.traceId!,
+    });
+    expect(lookupTrace).toMatchObject({ status: "success", preserve: true });
+    const [lookup] = lookupTrace!.spans[0].children!;
+    expect(lookup).toMatchObject({
+      spanName: "benchmark:lookupProduct",
+      status: "error",
+      error: "Product not found",
+    });
+    expect(lookup.logs ?? []).toEqual([]);
+  } finally {
+    random.mockRestore();
+  }
+});
+
+test("unsampled traces propagate their own trace id as not sampled", async () => {
+  const t = initConvexTest().withIdentity(user);
+  const calls = countTracerCalls();
+  const random = vi.spyOn(Math, "random").mockReturnValue(0.99);
+  const fetchMock = vi.fn(async (_request: Request) => new Response("ok"));
+  vi.stubGlobal("fetch", fetchMock);
+
+  try {
+    await t.action(api.benchmark.sampledQuote, {});
+    await t.action(api.benchmark.sampledQuote, {});
+  } finally {
+    vi.unstubAllGlobals();
+    random.mockRestore();
+  }
+  expect(calls).toEqual([]);
+
+  const [first, second] = fetchMock.mock.calls.map(([request]) =>
+    request.headers.get("traceparent"),
+  );
+  expect(first).toMatch(/^00-[0-9a-f]{32}-[0-9a-f]{16}-00$/);
+  expect(second).toMatch(/^00-[0-9a-f]{32}-[0-9a-f]{16}-00$/);
+  expect(second!.split("-")[1]).not.toBe(first!.split("-")[1]);
+});
+
+test("head sampled http actions write nothing for unsampled requests", async () => {
+  const t = initConvexTest().withIdentity(user);
+  const calls = countTracerCalls();
+  const random = vi.spyOn(Math, "random");
+
+  try {
+    random.mockReturnValue(0.99);
+    const unsampled = await t.fetch("/health");
+    expect(unsampled.status).toBe(200);
+    expect(unsampled.headers.get("X-Trace-Id")).toBeNull();
+    expect(calls).toEqual([]);
+
+    random.mockReturnValue(0);
+    const sampled = await t.fetch("/health");
+    const traceId = sampled.headers.get("X-Trace-Id")!;
+    await expect(
+      t.query(api.tracer.getTrace, { traceId }),
+    ).resolves.toMatchObject({ sampleRate: 1, status: "success" });
+  } finally {
+    random.mockRestore();
+  }
+});
+
+test("traces record the identity of the caller", async () => {
+  const t = initConvexTest().withIdentity({ subject: "user1|session1" });
+
+  const root = await t.mutation(api.tracer.startFrontendSpan, {
+    name: "checkout-click",
+    startTime: Date.now(),
+  });
+  expect(root.identity).toEqual({ userId: "user1" });
+
+  const result = await t.mutation(api.benchmark.checkout, {});
+  const trace = await t.query(api.tracer.getTrace, {
+    traceId: result.traceId!,
+  });
+  expect(trace?.userId).toBe("user1");
+
+  const traces = await t.query(api.tracer.listTraces, { userId: "user1" });
+  expect(traces.map((trace) => trace._id)).toContain(result.traceId);
+
+  // A client can't pass an identity to start a trace for someone else
+  const forged = await t.mutation(api.benchmark.checkout, {
+    __traceContext: {
+      traceId: "",
+      spanId: "",
+      sampleRate: 1,
+      retentionMinutes: 1,
+      preserveErrors: false,
+      identity: { userId: "victim", tenantId: "acme" },
+    },
+  });
+  const forgedTrace = await t.query(api.tracer.getTrace, {
+    traceId: forged.traceId!,
+  });
+  expect(forgedTrace?.userId).toBe("user1");
+  expect(forgedTrace?.tenantId).toBeUndefined();
+});
+
+test("a self scoped trace api only lets users reach their own traces", async () => {
+  const t = initConvexTest();
+  const owner = t.withIdentity(user);
+  const other = t.withIdentity({ subject: "user2" });
+  const { traceId } = await owner.mutation(api.benchmark.checkout, {});
+
+  // The demo dashboard's read-only api is open to everyone
+  await expect(
+    t.query(api.tracer.getTrace, { traceId: traceId! }),
+  ).resolves.toMatchObject({ _id: traceId });
+
+  await expect(
+    t.query(api.myTraces.getTrace, { traceId: traceId! }),
+  ).rejects.toThrow("Unauthorized");
+  await expect(
+    t.mutation(api.myTraces.deleteTrace, { traceId: traceId! }),
+  ).rejects.toThrow("Unauthorized");
+
+  await expect(
+    other.query(api.myTraces.getTrace, { traceId: traceId! }),
+  ).resolves.toBeNull();
+  await expect(
+    other.mutation(api.myTraces.deleteTrace, { traceId: traceId! }),
+  ).rejects.toThrow("Trace not found");
+
+  await owner.mutation(api.myTraces.preserveTrace, { traceId: traceId! });
+  await expect(
+    owner.query(api.myTraces.getTrace, { traceId: traceId! }),
+  ).resolves.toMatchObject({ preserve: true });
+
+  await owner.mutation(api.myTraces.deleteTrace, { traceId: traceId! });
+  await expect(
+    owner.query(api.myTraces.getTrace, { traceId: traceId! }),
+  ).resolves.toBeNull();
+});
+
+test("the trace api returns at most 100 traces", async () => {
+  const t = initConvexTest().withIdentity(user);
+  for (let i = 0; i < 101; i++) {
+    await t.mutation(api.benchmark.checkout, {});
+  }
+
+  await expect(t.query(api.tracer.listTraces, {})).resolves.toHaveLength(100);
+  await expect(
+    t.query(api.tracer.listTraces, { limit: 1000 }),
+  ).resolves.toHaveLength(100);
+  const page = await t.query(api.tracer.listTracesPaginated, {
+    paginationOpts: { numItems: 1000, cursor: null },
+  });
+  expect(page.page).toHaveLength(100);
+});
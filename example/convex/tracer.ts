@@ -1,43 +1,46 @@
-import { Tracer, statusValidator } from "convex-tracer";
-import { v } from "convex/values";
+import { Tracer } from "convex-tracer";
 import { components } from "./_generated/api";
 import { DataModel } from "./_generated/dataModel";
-import { query } from "./_generated/server";
 
 export const {
   tracedQuery,
+  reactiveTracedQuery,
   tracedMutation,
   tracedAction,
   internalTracedQuery,
   internalTracedMutation,
   internalTracedAction,
+  otlpHttpAction,
+  tracedHttpAction,
+  frontendApi,
   tracer,
 } = new Tracer<DataModel>(components.tracer, {
   retentionMinutes: 0.167,
 });
 
-export const listTraces = query({
-  args: {
-    status: v.optional(statusValidator),
-    userId: v.optional(v.string()),
-    limit: v.optional(v.number()),
-  },
-  handler: async (ctx, args) => await tracer.listTraces(ctx, args),
-});
+export const { startFrontendSpan, finishFrontendSpan, importQueryTrace } =
+  frontendApi();
 
-export const searchTraces = query({
-  args: {
-    functionName: v.string(),
-    userId: v.optional(v.string()),
-    status: v.optional(statusValidator),
-    limit: v.optional(v.number()),
-  },
-  handler: async (ctx, args) => await tracer.searchTraces(ctx, args),
+// Decides when a trace starts whether it is kept, so unsampled calls write
+// nothing unless they fail
+export const {
+  tracedMutation: headSampledMutation,
+  tracedAction: headSampledAction,
+  tracedHttpAction: headSampledHttpAction,
+} = new Tracer<DataModel>(components.tracer, {
+  headSampling: true,
+  bufferWrites: true,
+  retentionMinutes: 0.167,
 });
 
-export const getTrace = query({
-  args: {
-    traceId: v.string(),
-  },
-  handler: async (ctx, args) => await tracer.getTrace(ctx, args.traceId),
-});
+// The demo dashboard has no sign-in, so it reads every trace through these
+// read-only functions. Apps with users check the caller in `authorize` and keep
+// the default "self" scope, as myTraces.ts does.
+export const {
+  listTraces,
+  listTracesPaginated,
+  searchTraces,
+  searchTracesPaginated,
+  findTracesByTag,
+  getTrace,
+} = tracer.api({ authorize: () => true, scope: "all" });
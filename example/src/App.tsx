@@ -95,7 +95,10 @@ export default function TraceDemoView() {
                   <TableHeader>
                     <TableRow>
                       <TableHead>Trace ID</TableHead>
+                      <TableHead>Function</TableHead>
                       <TableHead>Status</TableHead>
+                      <TableHead>Duration</TableHead>
+                      <TableHead>Spans</TableHead>
                       <TableHead>Sample Rate</TableHead>
                       <TableHead>Updated At</TableHead>
                       <TableHead>Preserved</TableHead>
@@ -118,9 +121,23 @@ export default function TraceDemoView() {
                         <TableCell className="font-mono text-xs">
                           {trace._id}
                         </TableCell>
+                        <TableCell>{trace.functionName ?? "-"}</TableCell>
                         <TableCell>
                           <StatusBadge status={trace.status} />
                         </TableCell>
+                        <TableCell>
+                          {trace.duration !== undefined
+                            ? `${trace.duration}ms`
+                            : "-"}
+                        </TableCell>
+                        <TableCell>
+                          {trace.spanCount ?? "-"}
+                          {trace.errorCount ? (
+                            <span className="text-destructive">
+                              {` (${trace.errorCount} failed)`}
+                            </span>
+                          ) : null}
+                        </TableCell>
                         <TableCell>{trace.sampleRate * 100}%</TableCell>
                         <TableCell>
                           {formatTimestamp(trace.updatedAt)}
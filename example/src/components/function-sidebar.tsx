@@ -14,7 +14,7 @@ import {
 } from "./ui/select";
 import { Separator } from "./ui/separator";
 
-import { useTracedMutation } from "convex-tracer/react";
+import { useTrace, useTracedMutation } from "convex-tracer/react";
 import { cn } from "../lib/utils";
 
 type FunctionDef = {
@@ -80,6 +80,7 @@ export function FunctionSidebar() {
     }
   };
 
+  const { trace } = useTrace();
   const executeMutation = useTracedMutation(selectedFunction.funcRef);
 
   const executeFunction = async () => {
@@ -88,14 +89,18 @@ export function FunctionSidebar() {
       selectedFunction.type === "query" ||
       selectedFunction.type === "mutation"
     ) {
-      let result;
+      const result = await trace(
+        `run ${selectedFunction.name}`,
+        async (span) => {
+          span.info("Run clicked", { function: selectedFunction.name });
 
-      if (!functionArgs) {
-        result = await executeMutation({});
-      } else {
-        // @ts-expect-error failed type inference on dynamic FuncRef
-        result = await executeMutation({ ...functionArgs });
-      }
+          if (!functionArgs) {
+            return await executeMutation({});
+          }
+          // @ts-expect-error failed type inference on dynamic FuncRef
+          return await executeMutation({ ...functionArgs });
+        },
+      );
 
       setFnReturn(result);
     } else {
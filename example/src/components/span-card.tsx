@@ -48,6 +48,34 @@ export function SpanCard({ span, onClick }: SpanCardProps) {
                 {getErrorMessage(span.error)}
               </div>
             )}
+            {span.exceptions?.map((exception, i) => (
+              <details
+                key={i}
+                className="text-xs mt-1"
+                onClick={(e) => e.stopPropagation()}
+              >
+                <summary
+                  className={
+                    exception.handled
+                      ? "text-muted-foreground"
+                      : "text-destructive"
+                  }
+                >
+                  {exception.name}: {exception.message}
+                  {exception.handled && " (handled)"}
+                </summary>
+                {exception.data !== undefined && (
+                  <pre className="font-mono whitespace-pre-wrap">
+                    {JSON.stringify(exception.data, null, 2)}
+                  </pre>
+                )}
+                <pre className="font-mono whitespace-pre-wrap text-muted-foreground">
+                  {[exception, ...(exception.cause ?? [])]
+                    .map((e) => e.stack ?? `${e.name}: ${e.message}`)
+                    .join("\nCaused by: ")}
+                </pre>
+              </details>
+            ))}
           </div>
         </div>
       </CardContent>
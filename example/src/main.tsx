@@ -1,6 +1,8 @@
 import { ConvexProvider, ConvexReactClient } from "convex/react";
+import { TracerProvider } from "convex-tracer/react";
 import { StrictMode } from "react";
 import { createRoot } from "react-dom/client";
+import { api } from "../convex/_generated/api";
 import App from "./App.jsx";
 import "./styles/globals.css";
 
@@ -11,7 +13,9 @@ const convex = new ConvexReactClient(address);
 createRoot(document.getElementById("root")!).render(
   <StrictMode>
     <ConvexProvider client={convex}>
-      <App />
+      <TracerProvider api={api.tracer}>
+        <App />
+      </TracerProvider>
     </ConvexProvider>
   </StrictMode>,
 );
@@ -0,0 +1,56 @@
+import { ConvexError, type Value } from "convex/values";
+import type { Exception } from "../component/types";
+
+const MAX_CAUSE_DEPTH = 5;
+
+type ExceptionCause = NonNullable<Exception["cause"]>[number];
+
+function describe(error: unknown): ExceptionCause {
+  if (error instanceof Error) {
+    return { name: error.name, message: error.message, stack: error.stack };
+  }
+  return { name: typeof error, message: String(error) };
+}
+
+function getCause(error: unknown): unknown {
+  return error instanceof Error
+    ? (error as { cause?: unknown }).cause
+    : undefined;
+}
+
+/**
+ * Captures an error's class name, message, stack, `cause` chain and, for a
+ * `ConvexError`, its structured `data` so it can be stored on a span.
+ */
+export function toException(error: unknown, handled: boolean): Exception {
+  const cause: ExceptionCause[] = [];
+  let next = getCause(error);
+  while (next !== undefined && cause.length < MAX_CAUSE_DEPTH) {
+    cause.push(describe(next));
+    next = getCause(next);
+  }
+
+  return {
+    ...describe(error),
+    data: error instanceof ConvexError ? error.data : undefined,
+    cause: cause.length > 0 ? cause : undefined,
+    timestamp: Date.now(),
+    handled,
+  };
+}
+
+/**
+ * Adds the trace id to the data of a rethrown `ConvexError` so the client
+ * can show it as a reference. Only object data is extended; strings and
+ * other values are left as they are.
+ */
+export function attachTraceId(error: unknown, traceId: string): void {
+  const data = error instanceof ConvexError ? error.data : undefined;
+  if (
+    typeof data === "object" &&
+    data !== null &&
+    Object.getPrototypeOf(data) === Object.prototype
+  ) {
+    (error as ConvexError<Record<string, Value>>).data = { ...data, traceId };
+  }
+}
@@ -1,13 +1,33 @@
-import type { Auth, GenericDataModel } from "convex/server";
-import type { ObjectType, PropertyValidators } from "convex/values";
+import {
+  getFunctionAddress,
+  getFunctionName,
+  type Auth,
+  type FunctionReference,
+  type FunctionType,
+  type GenericDataModel,
+} from "convex/server";
+import {
+  v,
+  type GenericValidator,
+  type ObjectType,
+  type PropertyValidators,
+  type Validator,
+} from "convex/values";
 import type { ComponentApi } from "../component/_generated/component";
+import { randomOtlpTraceId } from "../component/otlp";
+import type { ExporterConfig, SamplingRule } from "../component/types";
+import { attachTraceId, toException } from "./exceptions";
 import TracerAPI from "./tracer-api/index";
+import TraceBuffer, { type BufferedCompletion } from "./tracer-api/buffer";
 import type {
   ArgsWithTraceContext,
   LogArgs,
   OptionalArgsObject,
+  ResultMode,
+  SamplingConfig,
   StrippedGenericFunctionContext,
   TraceContext,
+  TraceIdentity,
   TracedFunctionOptions,
   TracedResult,
   TracerConfig,
@@ -25,7 +45,7 @@ function pick<T extends Record<string, any>, Keys extends (keyof T)[]>(
   };
 }
 
-async function getAuthUserId(ctx: { auth: Auth }) {
+export async function getAuthUserId(ctx: { auth: Auth }) {
   const identity = await ctx.auth.getUserIdentity();
   if (identity === null) return "anonymous";
 
@@ -33,6 +53,57 @@ async function getAuthUserId(ctx: { auth: Auth }) {
   return userId;
 }
 
+export type Identify = NonNullable<TracerConfig["identify"]>;
+
+export async function getAuthIdentity(ctx: {
+  auth: Auth;
+}): Promise<TraceIdentity> {
+  return { userId: await getAuthUserId(ctx) };
+}
+
+/**
+ * The fields a trace stores for an identity. `extra` is stored as the
+ * trace's `identity`.
+ */
+export function traceIdentity({ userId, tenantId, extra }: TraceIdentity) {
+  return { userId: userId ?? "anonymous", tenantId, identity: extra };
+}
+
+/**
+ * Names a called function for its span. References into components and
+ * function handles have no function name, so their address is used instead.
+ */
+export function getCalledFunctionName(
+  funcRef: FunctionReference<any, any>,
+): string {
+  const address = getFunctionAddress(funcRef);
+  if (address.name !== undefined) return getFunctionName(funcRef);
+
+  return (
+    address.reference?.replace(/^_reference\/childComponent\//, "") ??
+    address.functionHandle ??
+    "unknown-function"
+  );
+}
+
+/**
+ * Names the span of a call to another function. The span is named after the
+ * function's path, while the function metrics count it under the part after
+ * the module, e.g. `getOrder` for `shop:getOrder`. Traced functions are named
+ * after their export, so the calls their caller records add up with the ones
+ * they record themselves.
+ */
+export function getCalledFunctionNames(funcRef: FunctionReference<any, any>): {
+  spanName: string;
+  functionName: string;
+} {
+  const spanName = getCalledFunctionName(funcRef);
+  if (getFunctionAddress(funcRef).name === undefined) {
+    return { spanName, functionName: spanName };
+  }
+  return { spanName, functionName: spanName.slice(spanName.indexOf(":") + 1) };
+}
+
 export function extractTraceContext<Args extends Record<string, unknown>>(
   allArgs: ArgsWithTraceContext<Args>,
 ): { existingContext?: TraceContext; args: Args } {
@@ -54,6 +125,52 @@ export function prepareLogArgs<Args extends PropertyValidators>(
   return undefined;
 }
 
+/**
+ * Whether a handler may return undefined, which Convex turns into null
+ * before validating it.
+ */
+function acceptsNull(validator: GenericValidator): boolean {
+  switch (validator.kind) {
+    case "null":
+    case "any":
+      return true;
+    case "union":
+      return validator.members.some(acceptsNull);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Wraps the `returns` validator of a traced function in a validator for the
+ * `TracedResult` envelope it returns. `fields` are added to both outcomes.
+ */
+export function tracedResultValidator(
+  returns: GenericValidator,
+  fields: PropertyValidators,
+) {
+  const data = acceptsNull(returns)
+    ? v.optional(returns as Validator<any, "required", any>)
+    : returns;
+
+  return v.union(
+    v.object({ success: v.literal(true), data, ...fields }),
+    v.object({ success: v.literal(false), error: v.string(), ...fields }),
+  );
+}
+
+/**
+ * The error of a traced function's `TracedResult`, for calls that failed
+ * without throwing.
+ */
+export function tracedResultError(result: unknown): string | undefined {
+  const outcome = result as Partial<TracedResult<unknown>> | null;
+  if (typeof outcome !== "object" || outcome?.success !== false) {
+    return undefined;
+  }
+  return outcome.error;
+}
+
 export async function setupTraceContext(
   ctx: StrippedGenericFunctionContext<GenericDataModel>,
   component: ComponentApi,
@@ -63,25 +180,46 @@ export async function setupTraceContext(
   sampleRate: number,
   retentionMinutes: number,
   preserveErrors: boolean,
+  headSampling: boolean,
+  identify: Identify,
   spanData: { functionName?: string; args?: unknown },
+  traceMetadata: Record<string, any> = {},
 ): Promise<{
   traceId: string;
   spanId: string;
   traceContext: TraceContext;
   isRoot: boolean;
+  deferred?: TraceBuffer;
 }> {
-  if (existingContext?.traceId) {
-    const spanId = await ctx.runMutation(component.lib.createSpan, {
+  const span = {
+    spanName: functionName,
+    source: "backend" as const,
+    startTime,
+    functionName: spanData.functionName,
+    args: spanData.args,
+  };
+
+  if (existingContext?.sampled === false) {
+    // The caller's trace wasn't head sampled. A called function writes
+    // nothing and its caller records its span, while a scheduled function
+    // starts its own trace that is kept when it is preserved.
+    if (existingContext.scheduledAt === undefined) {
+      const deferred = new TraceBuffer(ctx, component, {});
+      const spanId = deferred.startSpan(span);
+      return {
+        traceId: "",
+        spanId,
+        traceContext: { ...existingContext, spanId },
+        isRoot: false,
+        deferred,
+      };
+    }
+  } else if (existingContext?.traceId) {
+    const spanId = await ctx.runMutation(component.lib.startSpan, {
       traceId: existingContext.traceId,
-      span: {
-        parentSpanId: existingContext.spanId,
-        spanName: functionName,
-        source: "backend",
-        startTime,
-        status: "pending",
-        functionName: spanData.functionName,
-        args: spanData.args,
-      },
+      parentSpanId: existingContext.spanId,
+      scheduledAt: existingContext.scheduledAt,
+      span,
     });
 
     return {
@@ -93,30 +231,58 @@ export async function setupTraceContext(
         sampleRate: existingContext.sampleRate,
         retentionMinutes: existingContext.retentionMinutes,
         preserveErrors: existingContext.preserveErrors,
+        sampled: existingContext.sampled,
+        otlpTraceId: existingContext.otlpTraceId,
+        identity: existingContext.identity,
       },
       isRoot: false,
     };
   }
 
-  const userId = await getAuthUserId(ctx);
-  const traceId = await ctx.runMutation(component.lib.createTrace, {
-    status: "pending",
-    sampleRate,
-    metadata: {},
-    source: "backend",
-    userId,
-  });
+  const sampled =
+    existingContext?.sampled === false
+      ? false
+      : headSampling
+        ? Math.random() < sampleRate
+        : undefined;
+  // A scheduled function has no auth, so it keeps its caller's identity.
+  // Only internal and signed contexts carry one, see Tracer.acceptContext.
+  const identity = existingContext?.identity ?? (await identify(ctx));
+  const trace = {
+    // A head sampled trace is kept, so it isn't sampled again on cleanup
+    sampleRate: sampled ? 1 : sampleRate,
+    headSampleRate: sampled ? sampleRate : undefined,
+    metadata: traceMetadata,
+    source: "backend" as const,
+    ...traceIdentity(identity),
+  };
+  const contextIdentity = pick(identity, ["userId", "tenantId"]);
 
-  const spanId = await ctx.runMutation(component.lib.createSpan, {
-    traceId,
-    span: {
-      spanName: functionName,
-      source: "backend",
-      startTime: Date.now(),
-      status: "pending",
-      functionName: spanData.functionName,
-      args: spanData.args,
-    },
+  if (sampled === false) {
+    const deferred = new TraceBuffer(ctx, component, { trace });
+    const spanId = deferred.startSpan(span);
+    return {
+      traceId: "",
+      spanId,
+      traceContext: {
+        traceId: "",
+        spanId,
+        sampleRate,
+        retentionMinutes,
+        preserveErrors,
+        sampled: false,
+        // Outbound calls still need a trace id, one that no other trace has
+        otlpTraceId: existingContext?.otlpTraceId ?? randomOtlpTraceId(),
+        identity: contextIdentity,
+      },
+      isRoot: true,
+      deferred,
+    };
+  }
+
+  const { traceId, spanId } = await ctx.runMutation(component.lib.startTrace, {
+    ...trace,
+    span,
   });
 
   return {
@@ -128,6 +294,8 @@ export async function setupTraceContext(
       sampleRate,
       retentionMinutes,
       preserveErrors,
+      sampled,
+      identity: contextIdentity,
     },
     isRoot: true,
   };
@@ -138,57 +306,63 @@ export async function executeTracedHandler<
   Output,
   EnhancedCtx,
 >(params: {
-  ctx: StrippedGenericFunctionContext<GenericDataModel>;
-  component: ComponentApi;
-  traceId: string;
   spanId: string;
   startTime: number;
   config: TracedFunctionOptions<EnhancedCtx, Args, Output> & TracerConfig;
   args: OptionalArgsObject<Args>;
   handler: TracerHandler<EnhancedCtx, Args>;
   enhancedCtx: EnhancedCtx;
+  functionType: FunctionType;
   isRoot: boolean;
-}): Promise<TracedResult<Output>> {
+  headSampled: boolean;
+  resultMode: ResultMode;
+  exporter?: ExporterConfig;
+  samplingRules?: SamplingRule[];
+}): Promise<TracedResult<Output> | Output> {
   const {
-    ctx,
-    component,
-    traceId,
     spanId,
     startTime,
     config,
     args,
     handler,
     enhancedCtx,
+    functionType,
     isRoot,
+    headSampled,
+    resultMode,
+    exporter,
+    samplingRules,
   } = params;
 
-  const defaultConfig = (enhancedCtx as any).tracer
-    .config as Required<TracerConfig>;
+  const tracer = (enhancedCtx as any).tracer as TracerAPI;
+  const defaultConfig = (tracer as any).config as SamplingConfig;
+
+  const retentionMinutes =
+    config.retentionMinutes ?? defaultConfig.retentionMinutes;
+  const sampleRate = headSampled
+    ? 1
+    : (config.sampleRate ?? defaultConfig.sampleRate);
+
+  // Writes the function's span and everything still buffered in one
+  // mutation, which completes the trace when this function started it.
+  const finish = async (
+    completion: Omit<BufferedCompletion, "spanId" | "endTime" | "duration">,
+  ) => {
+    const endTime = Date.now();
+    return await tracer.finish(
+      { spanId, endTime, duration: endTime - startTime, ...completion },
+      {
+        ...(isRoot && { status: completion.status, exporter, samplingRules }),
+        cleanupAfterMs: cleanupDelay(
+          sampleRate,
+          retentionMinutes,
+          samplingRules,
+        ),
+      },
+    );
+  };
 
   try {
-    // Reject any functions that pass a traceId that doesn't exist
-    // These params can be passed from the frontend to break tracing
-    // Running a tracedFunction without passing ids will create a new trace
-    if (traceId) {
-      const traceExists = await ctx.runQuery(component.lib.verifyTrace, {
-        traceId,
-      });
-
-      if (!traceExists)
-        throw new Error("Cannot pass a traceId for a trace that doesn't exist");
-    }
-
-    // Reject any functions that pass a spanId that doesn't exist
-    // These params can be passed from the frontend to break tracing
-    if (spanId) {
-      const spanExists = await ctx.runQuery(component.lib.verifySpan, {
-        spanId,
-      });
-
-      if (!spanExists)
-        throw new Error("Cannot pass a spanId for a span that doesn't exist");
-    }
-
     if (config.onStart) {
       await config.onStart(enhancedCtx, args);
     }
@@ -199,32 +373,13 @@ export async function executeTracedHandler<
       await config.onSuccess(enhancedCtx, args, result);
     }
 
-    const now = Date.now();
-
-    await ctx
-      .runMutation(component.lib.completeSpan, {
-        spanId,
-        endTime: now,
-        duration: now - startTime,
-        status: "success",
-        result: config.logReturn ? result : undefined,
-      })
-      .catch((err) =>
-        console.error("[Tracer] Failed to complete span with success:", err),
-      );
-
-    if (isRoot) {
-      await ctx
-        .runMutation(component.lib.updateTraceStatus, {
-          traceId,
-          status: "success",
-        })
-        .catch((err) =>
-          console.error("[Tracer] Failed to update trace status:", err),
-        );
-    }
+    const ids = await finish({
+      status: "success",
+      result: config.logReturn ? result : undefined,
+    });
 
-    return { success: true, data: result, error: undefined };
+    if (resultMode === "throw") return result;
+    return { success: true, data: result, error: undefined, ...ids };
   } catch (e) {
     const error = e as unknown as Error;
 
@@ -236,53 +391,67 @@ export async function executeTracedHandler<
       config.preserveErrors ?? defaultConfig.preserveErrors;
 
     if (preserveErrors) {
-      const tracerAPI = new TracerAPI(ctx, component, traceId, spanId, config);
-      await tracerAPI.preserve();
-    }
-
-    await ctx
-      .runMutation(component.lib.completeSpan, {
-        spanId,
-        endTime: Date.now(),
-        duration: Date.now() - startTime,
-        status: "error",
-        error: error.message,
-      })
-      .catch((err) =>
-        console.error("[Tracer] Failed to complete span with error:", err),
-      );
-
-    if (isRoot) {
-      await ctx
-        .runMutation(component.lib.updateTraceStatus, {
-          traceId,
-          status: "error",
-        })
-        .catch((err) =>
-          console.error("[Tracer] Failed to update trace status:", err),
-        );
+      await tracer.preserve();
     }
 
-    return { success: false, data: undefined, error: error.message };
-  } finally {
-    const retMins = config.retentionMinutes ?? defaultConfig.retentionMinutes;
+    const ids = await finish({
+      status: "error",
+      error: error.message,
+      exception: toException(error, false),
+    });
 
-    if (!retMins) {
-      console.error("[Tracer] retentionMinutes is not defined");
+    // In a query or mutation the trace written above is rolled back with
+    // the rest of the transaction, so the caller records the failure:
+    // runTraced* in a parent function or the React hooks in the browser.
+    // The traceId is only attached when the trace outlives the rollback,
+    // i.e. in an action or a trace started by the caller.
+    if (resultMode === "throw") {
+      if (ids && (functionType === "action" || !isRoot)) {
+        attachTraceId(e, ids.traceId);
+      }
+      throw e;
     }
+    return {
+      success: false,
+      data: undefined,
+      error: error.message,
+      ...ids,
+    };
+  }
+}
 
-    const sampleRate = config.sampleRate ?? defaultConfig.sampleRate;
-    if (!sampleRate) {
-      console.error("[Tracer] sampleRate is not defined");
-    } else if (sampleRate && sampleRate < 1) {
-      const MINUTE = 60 * 1000;
-      const delayMins = retMins ?? 120;
+/**
+ * How long to wait before the sampling decision for a trace, once its
+ * retention window has passed. Fully sampled traces are never cleaned up
+ * unless sampling rules could lower their rate.
+ */
+export function cleanupDelay(
+  sampleRate: number,
+  retentionMinutes: number | undefined,
+  samplingRules: SamplingRule[] = [],
+): number | undefined {
+  if (sampleRate >= 1 && samplingRules.length === 0) return undefined;
 
-      const delay = delayMins * MINUTE;
+  const MINUTE = 60 * 1000;
+  return (retentionMinutes ?? 120) * MINUTE;
+}
 
-      await ctx.scheduler.runAfter(delay, component.lib.cleanupTrace, {
-        traceId,
-      });
-    }
-  }
+/**
+ * Schedules the sampling decision for a trace after `cleanupDelay()`.
+ */
+export async function scheduleTraceCleanup(
+  ctx: StrippedGenericFunctionContext<GenericDataModel>,
+  component: ComponentApi,
+  traceId: string,
+  sampleRate: number,
+  retentionMinutes: number | undefined,
+  samplingRules: SamplingRule[] = [],
+): Promise<void> {
+  const delay = cleanupDelay(sampleRate, retentionMinutes, samplingRules);
+  if (delay === undefined) return;
+
+  await ctx.scheduler.runAfter(delay, component.lib.cleanupTrace, {
+    traceId,
+    retentionMs: delay,
+  });
 }
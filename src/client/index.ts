@@ -1,40 +1,121 @@
-import type { FunctionType, GenericQueryCtx } from "convex/server";
+import type {
+  FunctionReference,
+  FunctionType,
+  FunctionVisibility,
+  GenericQueryCtx,
+  PaginationOptions,
+  PaginationResult,
+} from "convex/server";
 import {
   actionGeneric,
+  getFunctionName,
+  httpActionGeneric,
   internalActionGeneric,
   internalMutationGeneric,
   mutationGeneric,
+  paginationOptsValidator,
+  paginationResultValidator,
+  queryGeneric,
   type GenericActionCtx,
   type GenericDataModel,
   type GenericMutationCtx,
   type RegisteredAction,
   type RegisteredMutation,
+  type RegisteredQuery,
 } from "convex/server";
-import type { Infer, PropertyValidators } from "convex/values";
+import type {
+  GenericValidator,
+  Infer,
+  ObjectType,
+  PropertyValidators,
+} from "convex/values";
 import { v } from "convex/values";
 import type { ComponentApi } from "../component/_generated/component";
-import { statusValidator } from "../component/schema";
-import { type CompleteTrace, type Trace } from "../component/types";
+import {
+  formatTraceparent,
+  parseTraceparent,
+  toOtlpExportRequest,
+  toOtlpSpanId,
+  toOtlpTraceId,
+} from "../component/otlp";
+import {
+  exceptionValidator,
+  severityValidator,
+  statusValidator,
+  tagValueValidator,
+} from "../component/schema";
+import {
+  vCompleteTrace,
+  vTrace,
+  vTraceSnapshot,
+  type CompleteTrace,
+  type Delivery,
+  type ExporterConfig,
+  type FunctionMetrics,
+  type SamplingRule,
+  type Tag,
+  type Trace,
+  type TraceSnapshot,
+} from "../component/types";
 import type { EmptyObject } from "../react/types";
 import {
+  cleanupDelay,
   executeTracedHandler,
   extractTraceContext,
+  getAuthIdentity,
+  getCalledFunctionNames,
   prepareLogArgs,
+  scheduleTraceCleanup,
   setupTraceContext,
+  type Identify,
+  traceIdentity,
+  tracedResultError,
+  tracedResultValidator,
 } from "./helpers";
+import { toException } from "./exceptions";
+import {
+  signTraceContext,
+  signTraceSnapshot,
+  verifyTraceContext,
+  verifyTraceSnapshot,
+} from "./signing";
+import { instrumentDb } from "./instrument-db";
+import {
+  createRedactor,
+  mergeRedactionConfig,
+  type Redactor,
+} from "./redaction";
 import TracingAPI from "./tracer-api";
+import MemoryTracingAPI from "./tracer-api/memory";
+import TraceBuffer from "./tracer-api/buffer";
 import type {
   ActionCtxWithTracer,
   AnyFunctionReference,
   ExtractOutput,
+  FrontendSpanFinish,
+  FrontendSpanStart,
   GenericFunctionContext,
+  LogArgs,
   MutationCtxWithTracer,
+  OtlpHttpActionOptions,
+  RedactionConfig,
   QueryCtxWithTracer,
+  ReactiveQueryCtxWithTracer,
+  RunTracedAfter,
+  RunTracedAt,
+  ReactiveTracedResult,
+  ResultMode,
+  SamplingConfig,
+  StrippedGenericFunctionContext,
   TraceContext,
   TracedFunctionConfig,
   TracedFunctionContext,
   TracedFunctionTypes,
-  TracedResult,
+  TracedHttpActionConfig,
+  TraceApi,
+  TraceApiOperation,
+  TraceApiOptions,
+  TracedReturn,
   TracerArgs,
   TracerConfig,
   TracerHandler,
@@ -44,24 +125,81 @@ export {
   severityValidator,
   sourceValidator,
   statusValidator,
+  tagValueValidator,
 } from "../component/schema";
 export * from "../component/types";
+export {
+  formatTraceparent,
+  parseTraceparent,
+  toOtlpExportRequest,
+  toOtlpResourceSpans,
+  toOtlpSpanId,
+  toOtlpTraceId,
+  type OtlpExportOptions,
+  type OtlpExportRequest,
+  type OtlpResourceSpans,
+  type TraceParent,
+} from "../component/otlp";
 
-const DEFAULT_CONFIG: Required<TracerConfig> = {
+interface EnhancedContextOptions {
+  buffer?: TraceBuffer;
+  redact?: Redactor;
+  instrumentDb?: boolean;
+  logArgs?: LogArgs<any>;
+  logReturn?: boolean;
+}
+
+const DEFAULT_CONFIG: SamplingConfig = {
   sampleRate: 0.1,
   preserveErrors: true,
   retentionMinutes: 120,
 };
 
-const __traceContext = v.optional(
-  v.object({
-    traceId: v.string(),
-    spanId: v.string(),
-    sampleRate: v.optional(v.number()),
-    retentionMinutes: v.optional(v.number()),
-    preserveErrors: v.optional(v.boolean()),
-  }),
-);
+const vTraceContext = v.object({
+  traceId: v.string(),
+  spanId: v.string(),
+  sampleRate: v.optional(v.number()),
+  retentionMinutes: v.optional(v.number()),
+  preserveErrors: v.optional(v.boolean()),
+  scheduledAt: v.optional(v.number()),
+  sampled: v.optional(v.boolean()),
+  otlpTraceId: v.optional(v.string()),
+  identity: v.optional(
+    v.object({
+      userId: v.optional(v.string()),
+      tenantId: v.optional(v.string()),
+    }),
+  ),
+  signature: v.optional(v.string()),
+});
+
+const __traceContext = v.optional(vTraceContext);
+
+const vFrontendSpanStart = {
+  name: v.string(),
+  startTime: v.number(),
+  parent: v.optional(vTraceContext),
+};
+
+const vFrontendSpanFinish = {
+  context: vTraceContext,
+  endTime: v.number(),
+  duration: v.number(),
+  status: v.union(v.literal("success"), v.literal("error")),
+  error: v.optional(v.string()),
+  exception: v.optional(exceptionValidator),
+  logs: v.optional(
+    v.array(
+      v.object({
+        timestamp: v.number(),
+        severity: severityValidator,
+        message: v.string(),
+        metadata: v.optional(v.record(v.string(), v.any())),
+      }),
+    ),
+  ),
+  metadata: v.optional(v.record(v.string(), v.any())),
+};
 
 /**
  * @example
@@ -85,34 +223,155 @@ const __traceContext = v.optional(
  * });
  * ```
  */
-export class Tracer<DataModel extends GenericDataModel> {
+export class Tracer<
+  DataModel extends GenericDataModel,
+  Mode extends ResultMode = "envelope",
+> {
   public readonly sampleRate: number;
   public readonly preserveErrors: boolean;
   public readonly retentionMinutes: number;
+  public readonly headSampling: boolean;
+  public readonly bufferWrites: boolean;
+  public readonly exporter?: ExporterConfig;
+  public readonly samplingRules: SamplingRule[];
+  public readonly redact?: RedactionConfig;
+  public readonly resultMode: Mode;
+  public readonly unsignedContext: "ignore" | "reject";
+  private readonly signingSecret?: string;
+  private readonly identify: Identify;
 
   constructor(
     public readonly component: ComponentApi,
-    config: TracerConfig = {},
+    config: TracerConfig<Mode> = {},
   ) {
     this.sampleRate = config.sampleRate ?? DEFAULT_CONFIG.sampleRate;
     this.preserveErrors =
       config.preserveErrors ?? DEFAULT_CONFIG.preserveErrors;
     this.retentionMinutes =
       config.retentionMinutes ?? DEFAULT_CONFIG.retentionMinutes;
+    this.headSampling = config.headSampling ?? false;
+    this.bufferWrites = config.bufferWrites ?? false;
+    this.exporter = config.exporter;
+    this.samplingRules = config.samplingRules ?? [];
+    this.redact = config.redact;
+    this.resultMode = config.resultMode ?? ("envelope" as Mode);
+    this.signingSecret = config.signingSecret;
+    this.unsignedContext = config.unsignedContext ?? "ignore";
+    this.identify = config.identify ?? getAuthIdentity;
+  }
+
+  /**
+   * Creates the redactor for a function, hashing with the signing secret
+   * unless the config has its own `hashSecret`.
+   */
+  private createRedactor(override?: RedactionConfig): Redactor {
+    const config = mergeRedactionConfig(this.redact, override);
+    return createRedactor(
+      config && {
+        ...config,
+        hashSecret: config.hashSecret ?? this.signingSecret,
+      },
+    );
+  }
+
+  /**
+   * Signs a trace context before it is passed on, when a signing secret is
+   * configured.
+   */
+  private async signContext(context: TraceContext): Promise<TraceContext> {
+    if (!this.signingSecret) return context;
+    return await signTraceContext(context, this.signingSecret);
+  }
+
+  /**
+   * Signs the trace snapshot a reactive traced query returns, when a signing
+   * secret is configured.
+   */
+  private async signSnapshot(snapshot: TraceSnapshot): Promise<TraceSnapshot> {
+    if (!this.signingSecret) return snapshot;
+    return await signTraceSnapshot(snapshot, this.signingSecret);
+  }
+
+  /**
+   * Checks the signature of a snapshot a client asks to import and returns
+   * whether it can be trusted. Without a signing secret it can't; with one,
+   * unsigned or changed snapshots are rejected.
+   */
+  private async verifySnapshot(snapshot: TraceSnapshot): Promise<boolean> {
+    if (!this.signingSecret) return false;
+    if (await verifyTraceSnapshot(snapshot, this.signingSecret)) return true;
+    throw new Error("Invalid trace snapshot signature");
+  }
+
+  /**
+   * Checks the signature of a trace context passed to a traced function,
+   * before any span is created under it. Returns undefined when an unsigned
+   * context is ignored, so a new trace is started instead.
+   */
+  private async acceptContext(
+    context: TraceContext | undefined,
+    visibility: FunctionVisibility,
+  ): Promise<TraceContext | undefined> {
+    if (!context) return undefined;
+
+    if (this.signingSecret && context.signature !== undefined) {
+      if (await verifyTraceContext(context, this.signingSecret)) {
+        return context;
+      }
+      throw new Error("Invalid trace context signature");
+    }
+
+    // Only public functions can be called with a context from a client
+    if (visibility === "internal") return context;
+    if (this.signingSecret) {
+      if (this.unsignedContext === "reject") {
+        throw new Error("Unsigned trace context");
+      }
+      return undefined;
+    }
+
+    // Without a signing secret a client's context still joins its trace, but
+    // what only the backend sets can't be taken from it: `scheduledAt` would
+    // complete the parent span as if a scheduled function had started,
+    // `sampled: false` would keep the call from being written and `identity`
+    // would attribute a new trace to another user.
+    return {
+      ...context,
+      scheduledAt: undefined,
+      sampled: undefined,
+      identity: undefined,
+    };
   }
 
   private createRunTracedFunction<
     Ctx extends GenericFunctionContext<DataModel>,
-  >(ctx: Ctx, traceContext: TraceContext, type: TracedFunctionTypes) {
+  >(
+    ctx: Ctx,
+    traceContext: TraceContext,
+    type: TracedFunctionTypes,
+    tracer: TracingAPI,
+  ) {
     return async <FuncRef extends AnyFunctionReference>(
       funcRef: FuncRef,
       args: Exclude<FuncRef["_args"], "__traceContext">,
     ): Promise<FuncRef["_returnType"]> => {
       const argsWithTrace = {
         ...args,
-        __traceContext: traceContext,
+        __traceContext: await this.signContext(traceContext),
       };
 
+      // A call inside a trace that wasn't head sampled writes nothing, so
+      // its span is recorded here and kept if this trace is.
+      if (traceContext.sampled === false) {
+        const run = (ctx as any)[
+          type === "action" ? "runAction" : "runMutation"
+        ] as (funcRef: FuncRef, args: unknown) => Promise<unknown>;
+        return await tracer.traceCall(
+          { ...getCalledFunctionNames(funcRef), errorOf: tracedResultError },
+          () => run(funcRef, argsWithTrace),
+        );
+      }
+
       if (type === "action") {
         return await (ctx as GenericActionCtx<DataModel>).runAction(
           funcRef,
@@ -120,23 +379,118 @@ export class Tracer<DataModel extends GenericDataModel> {
         );
       }
 
-      return await (ctx as GenericMutationCtx<DataModel>).runMutation(
-        funcRef,
-        argsWithTrace,
+      const startTime = Date.now();
+      try {
+        return await (ctx as GenericMutationCtx<DataModel>).runMutation(
+          funcRef,
+          argsWithTrace,
+        );
+      } catch (error) {
+        // The called function's own span was rolled back with its writes.
+        await tracer.recordFailedCall(
+          getCalledFunctionNames(funcRef),
+          startTime,
+          error,
+        );
+        throw error;
+      }
+    };
+  }
+
+  private createRunTracedScheduler(
+    ctx: StrippedGenericFunctionContext<DataModel>,
+    traceContext: TraceContext,
+  ): { runTracedAfter: RunTracedAfter; runTracedAt: RunTracedAt } {
+    const schedule = async (
+      runAt: number,
+      funcRef: FunctionReference<"mutation" | "action", any, any, any>,
+      args: Record<string, unknown> = {},
+    ) => {
+      const scheduledAt = Date.now();
+      const functionName = getFunctionName(funcRef);
+
+      // The scheduled function of a trace that wasn't head sampled starts
+      // its own trace, which follows the same decision.
+      if (traceContext.sampled === false) {
+        return await ctx.scheduler.runAt(runAt, funcRef, {
+          ...args,
+          __traceContext: await this.signContext({
+            ...traceContext,
+            traceId: "",
+            scheduledAt,
+          }),
+        });
+      }
+
+      // The scheduled span stays pending until the function starts,
+      // which keeps cleanupTrace from deleting the trace in the meantime.
+      const scheduledSpanId = await ctx.runMutation(
+        this.component.lib.createSpan,
+        {
+          traceId: traceContext.traceId,
+          span: {
+            parentSpanId: traceContext.spanId,
+            spanName: `scheduled ${functionName}`,
+            source: "backend",
+            startTime: scheduledAt,
+            status: "pending",
+          },
+        },
       );
+      await ctx.runMutation(this.component.lib.updateSpanMetadata, {
+        spanId: scheduledSpanId,
+        metadata: {
+          scheduledFunction: functionName,
+          delayMs: Math.max(runAt - scheduledAt, 0),
+          scheduledFor: runAt,
+        },
+      });
+
+      return await ctx.scheduler.runAt(runAt, funcRef, {
+        ...args,
+        __traceContext: await this.signContext({
+          ...traceContext,
+          spanId: scheduledSpanId,
+          scheduledAt,
+        }),
+      });
+    };
+
+    return {
+      runTracedAfter: (delayMs, funcRef, args) =>
+        schedule(Date.now() + delayMs, funcRef, args),
+      runTracedAt: (timestamp, funcRef, args) =>
+        schedule(
+          timestamp instanceof Date ? timestamp.getTime() : timestamp,
+          funcRef,
+          args,
+        ),
     };
   }
 
+  /**
+   * Builds the validator for what a traced function returns around its
+   * `returns` validator, so its output is validated like an untraced one's.
+   */
+  private tracedReturns(tConfig: {
+    returns?: GenericValidator;
+    resultMode?: ResultMode;
+  }): GenericValidator | undefined {
+    if (!tConfig.returns) return undefined;
+    if ((tConfig.resultMode ?? this.resultMode) === "throw") {
+      return tConfig.returns;
+    }
+    return tracedResultValidator(tConfig.returns, {
+      traceId: v.optional(v.string()),
+      spanId: v.optional(v.string()),
+    });
+  }
+
   private createRestrictedQueryContext(
     ctx: GenericMutationCtx<DataModel>,
     traceContext: TraceContext,
+    tracer: TracingAPI,
   ): QueryCtxWithTracer<DataModel> {
-    const tracerConfig: Required<TracerConfig> = {
-      sampleRate: this.sampleRate,
-      preserveErrors: this.preserveErrors,
-      retentionMinutes: this.retentionMinutes,
-    };
-
     const { db, storage, ...restOfCtx } = ctx;
 
     const { get, query, normalizeId, system } = db;
@@ -150,57 +504,110 @@ export class Tracer<DataModel extends GenericDataModel> {
 
     return {
       ...queryCtx,
-      tracer: new TracingAPI(
-        ctx as any,
-        this.component,
-        traceContext.traceId,
-        traceContext.spanId,
-        tracerConfig,
-      ),
+      tracer,
       runTracedQuery: this.createRunTracedFunction(
         ctx,
         traceContext,
         "mutation",
+        tracer,
       ),
     } as QueryCtxWithTracer<DataModel>;
   }
 
+  /**
+   * Wraps the ctx's plain runQuery/runMutation/runAction so each call is a
+   * child span. runTraced* keep using the unwrapped ctx, since the called
+   * function records its own span. A `logArgs` key list names this
+   * function's args, so only `logArgs: true` records the called function's.
+   */
+  private traceFunctionCalls(
+    ctx: GenericFunctionContext<DataModel>,
+    tracer: TracingAPI,
+    { logArgs, logReturn }: EnhancedContextOptions,
+  ) {
+    const calls: Record<string, unknown> = {};
+
+    for (const method of ["runQuery", "runMutation", "runAction"] as const) {
+      if (!(method in ctx)) continue;
+
+      const run = (ctx as any)[method] as (
+        funcRef: any,
+        args: Record<string, unknown>,
+      ) => Promise<unknown>;
+      calls[method] = (funcRef: any, args: Record<string, unknown> = {}) =>
+        tracer.traceCall(
+          {
+            ...getCalledFunctionNames(funcRef),
+            args: logArgs === true ? args : undefined,
+            logReturn,
+          },
+          () => run(funcRef, args),
+        );
+    }
+
+    return calls;
+  }
+
   private createEnhancedContext(
     ctx: GenericFunctionContext<DataModel>,
     traceContext: TraceContext,
     type: FunctionType,
+    options: EnhancedContextOptions = {},
   ): TracedFunctionContext<DataModel> {
-    const tracerConfig: Required<TracerConfig> = {
+    const { buffer, redact } = options;
+    const tracerConfig: SamplingConfig = {
       sampleRate: this.sampleRate,
       preserveErrors: this.preserveErrors,
       retentionMinutes: this.retentionMinutes,
     };
 
+    const tracer = new TracingAPI(
+      ctx as any,
+      this.component,
+      traceContext.traceId,
+      traceContext.spanId,
+      tracerConfig,
+      buffer,
+      redact,
+      traceContext.otlpTraceId,
+    );
+
+    if (options.instrumentDb && "db" in ctx) {
+      ctx = { ...ctx, db: instrumentDb(ctx.db, tracer) };
+    }
+
+    const calls = this.traceFunctionCalls(ctx, tracer, options);
+
     if (type === "query") {
-      return this.createRestrictedQueryContext(
-        ctx as GenericMutationCtx<DataModel>,
-        traceContext,
-      );
+      return {
+        ...this.createRestrictedQueryContext(
+          ctx as GenericMutationCtx<DataModel>,
+          traceContext,
+          tracer,
+        ),
+        ...calls,
+      } as QueryCtxWithTracer<DataModel>;
     }
 
     const baseCtx = {
       ...ctx,
-      tracer: new TracingAPI(
-        ctx as any,
-        this.component,
-        traceContext.traceId,
-        traceContext.spanId,
-        tracerConfig,
-      ),
+      ...calls,
+      tracer,
       runTracedQuery: this.createRunTracedFunction(
         ctx,
         traceContext,
         "mutation",
+        tracer,
       ),
       runTracedMutation: this.createRunTracedFunction(
         ctx,
         traceContext,
         "mutation",
+        tracer,
+      ),
+      ...this.createRunTracedScheduler(
+        ctx as StrippedGenericFunctionContext<DataModel>,
+        traceContext,
       ),
     };
 
@@ -215,6 +622,7 @@ export class Tracer<DataModel extends GenericDataModel> {
           ctx,
           traceContext,
           "action",
+          tracer,
         ),
       } as ActionCtxWithTracer<DataModel>;
     }
@@ -227,54 +635,80 @@ export class Tracer<DataModel extends GenericDataModel> {
     Args extends PropertyValidators,
     Handler extends TracerHandler<EnhancedCtx, Args>,
     Output extends ExtractOutput<Handler>,
+    FnMode extends ResultMode,
   >(
-    tConfig: TracedFunctionConfig<EnhancedCtx, Args, Handler, Output>,
+    tConfig: TracedFunctionConfig<EnhancedCtx, Args, Handler, Output, FnMode>,
     functionType: FunctionType,
+    visibility: FunctionVisibility,
     defaultName: string,
   ) {
     const functionName = tConfig.name || defaultName;
+    const redact = this.createRedactor(tConfig.redact);
 
     return async (
       ctx: GenericFunctionContext<DataModel>,
       allArgs: any,
-    ): Promise<TracedResult<Output>> => {
+    ): Promise<TracedReturn<FnMode, Output>> => {
       const startTime = Date.now();
 
-      const { existingContext, args } = extractTraceContext(allArgs);
+      const extracted = extractTraceContext(allArgs);
+      const { args } = extracted;
+      const existingContext = await this.acceptContext(
+        extracted.existingContext,
+        visibility,
+      );
 
-      const { traceId, spanId, traceContext, isRoot } = await setupTraceContext(
-        ctx as any,
-        this.component,
-        existingContext,
-        startTime,
-        functionName,
-        tConfig.sampleRate ?? this.sampleRate,
-        tConfig.retentionMinutes ?? this.retentionMinutes,
-        tConfig.preserveErrors ?? this.preserveErrors,
-        {
+      const { spanId, traceContext, isRoot, deferred } =
+        await setupTraceContext(
+          ctx as any,
+          this.component,
+          existingContext,
+          startTime,
           functionName,
-          args: prepareLogArgs(args, tConfig.logArgs as any),
-        },
-      );
+          tConfig.sampleRate ?? this.sampleRate,
+          tConfig.retentionMinutes ?? this.retentionMinutes,
+          tConfig.preserveErrors ?? this.preserveErrors,
+          this.headSampling,
+          this.identify,
+          {
+            functionName,
+            args: redact(prepareLogArgs(args, tConfig.logArgs as any)),
+          },
+        );
+
+      const bufferWrites = tConfig.bufferWrites ?? this.bufferWrites;
 
       const enhancedCtx = this.createEnhancedContext(
         ctx,
         traceContext,
         functionType,
+        {
+          buffer:
+            deferred ??
+            (bufferWrites
+              ? new TraceBuffer(ctx as any, this.component)
+              : undefined),
+          redact,
+          instrumentDb: tConfig.instrumentDb,
+          logArgs: tConfig.logArgs as LogArgs<any>,
+          logReturn: tConfig.logReturn,
+        },
       ) as EnhancedCtx;
 
-      return await executeTracedHandler<Args, Output, EnhancedCtx>({
-        ctx: ctx as any,
-        component: this.component,
-        traceId,
+      return (await executeTracedHandler<Args, Output, EnhancedCtx>({
         spanId,
         startTime,
         config: tConfig,
         args,
         handler: tConfig.handler,
         enhancedCtx,
+        functionType,
         isRoot,
-      });
+        headSampled: traceContext.sampled === true,
+        resultMode: tConfig.resultMode ?? this.resultMode,
+        exporter: this.exporter,
+        samplingRules: this.samplingRules,
+      })) as TracedReturn<FnMode, Output>;
     };
   }
 
@@ -302,21 +736,24 @@ export class Tracer<DataModel extends GenericDataModel> {
     Args extends PropertyValidators | EmptyObject,
     Handler extends TracerHandler<Ctx, Args>,
     Output extends ExtractOutput<Handler>,
+    FnMode extends ResultMode = Mode,
   >(
-    tConfig: TracedFunctionConfig<Ctx, Args, Handler, Output>,
+    tConfig: TracedFunctionConfig<Ctx, Args, Handler, Output, FnMode>,
   ): RegisteredMutation<
     "public",
     TracerArgs<Args>,
-    TracedResult<ExtractOutput<Handler>>
+    TracedReturn<FnMode, ExtractOutput<Handler>>
   > => {
     return mutationGeneric({
       args: {
         ...tConfig.args,
         __traceContext,
       },
-      handler: this.createTracedHandler<Ctx, Args, Handler, Output>(
+      returns: this.tracedReturns(tConfig),
+      handler: this.createTracedHandler<Ctx, Args, Handler, Output, FnMode>(
         tConfig,
         "query",
+        "public",
         "anonymous-query",
       ),
     });
@@ -346,26 +783,145 @@ export class Tracer<DataModel extends GenericDataModel> {
     Args extends PropertyValidators | EmptyObject,
     Handler extends TracerHandler<Ctx, Args>,
     Output extends ExtractOutput<Handler>,
+    FnMode extends ResultMode = Mode,
   >(
-    tConfig: TracedFunctionConfig<Ctx, Args, Handler, Output>,
+    tConfig: TracedFunctionConfig<Ctx, Args, Handler, Output, FnMode>,
   ): RegisteredMutation<
     "internal",
     TracerArgs<Args>,
-    TracedResult<ExtractOutput<Handler>>
+    TracedReturn<FnMode, ExtractOutput<Handler>>
   > => {
     return internalMutationGeneric({
       args: {
         ...tConfig.args,
         __traceContext,
       },
-      handler: this.createTracedHandler<Ctx, Args, Handler, Output>(
+      returns: this.tracedReturns(tConfig),
+      handler: this.createTracedHandler<Ctx, Args, Handler, Output, FnMode>(
         tConfig,
         "query",
+        "internal",
         "anonymous-internal-query",
       ),
     });
   };
 
+  private createReactiveTracedHandler<
+    Ctx extends ReactiveQueryCtxWithTracer<DataModel>,
+    Args extends PropertyValidators,
+    Handler extends TracerHandler<Ctx, Args>,
+    Output extends ExtractOutput<Handler>,
+  >(tConfig: TracedFunctionConfig<Ctx, Args, Handler, Output, "envelope">) {
+    const functionName = tConfig.name || "anonymous-reactive-query";
+    const redact = this.createRedactor(tConfig.redact);
+    const preserveErrors = tConfig.preserveErrors ?? this.preserveErrors;
+
+    return async (
+      ctx: GenericQueryCtx<DataModel>,
+      args: any,
+    ): Promise<ReactiveTracedResult<Output>> => {
+      const tracer = new MemoryTracingAPI(
+        {
+          sampleRate: tConfig.sampleRate ?? this.sampleRate,
+          retentionMinutes: tConfig.retentionMinutes ?? this.retentionMinutes,
+          preserveErrors,
+        },
+        redact,
+      );
+      const spanId = tracer.startSpan({
+        spanName: functionName,
+        functionName,
+        args: prepareLogArgs(args, tConfig.logArgs as any),
+      });
+      const enhancedCtx = {
+        ...ctx,
+        db: tConfig.instrumentDb ? instrumentDb(ctx.db, tracer) : ctx.db,
+        tracer,
+      } as unknown as Ctx;
+
+      try {
+        if (tConfig.onStart) await tConfig.onStart(enhancedCtx, args);
+        const result = await tConfig.handler(enhancedCtx, args);
+        if (tConfig.onSuccess) {
+          await tConfig.onSuccess(enhancedCtx, args, result);
+        }
+
+        tracer.completeSpan(spanId, {
+          status: "success",
+          result: tConfig.logReturn ? result : undefined,
+        });
+        return {
+          success: true,
+          data: result,
+          error: undefined,
+          trace: await this.signSnapshot(tracer.snapshot()),
+        };
+      } catch (e) {
+        const error = e as Error;
+        if (tConfig.onError) await tConfig.onError(enhancedCtx, args, error);
+        if (preserveErrors) await tracer.preserve();
+
+        tracer.completeSpan(spanId, {
+          status: "error",
+          error: error.message,
+          exception: toException(error, false),
+        });
+        return {
+          success: false,
+          data: undefined,
+          error: error.message,
+          trace: await this.signSnapshot(tracer.snapshot()),
+        };
+      }
+    };
+  }
+
+  /**
+   * Creates a traced query that stays a real Convex query, so it keeps
+   * reactivity and caching. The trace is recorded in memory and returned as
+   * `trace` next to the result; `useTracedQuery(query, args)` from
+   * `convex-tracer/react` subscribes to it and persists the trace through
+   * `importQueryTrace` from `frontendApi()`.
+   *
+   * Queries can't write or call traced functions, and time doesn't advance
+   * while a query runs, so span durations are recorded as 0. The result is
+   * always an envelope, whatever the `resultMode`, since the trace travels
+   * with it.
+   * @example
+   * ```ts
+   * export const listOrders = reactiveTracedQuery({
+   *   name: "listOrders",
+   *   args: { customerId: v.id("customers") },
+   *   handler: async (ctx, args) => {
+   *     await ctx.tracer.info("Listing orders");
+   *     return await ctx.db.query("orders").collect();
+   *   },
+   * });
+   * ```
+   */
+  reactiveTracedQuery = <
+    Ctx extends ReactiveQueryCtxWithTracer<DataModel>,
+    Args extends PropertyValidators | EmptyObject,
+    Handler extends TracerHandler<Ctx, Args>,
+    Output extends ExtractOutput<Handler>,
+  >(
+    tConfig: TracedFunctionConfig<Ctx, Args, Handler, Output, "envelope">,
+  ): RegisteredQuery<
+    "public",
+    ObjectType<Args>,
+    ReactiveTracedResult<ExtractOutput<Handler>>
+  > => {
+    return queryGeneric({
+      args: tConfig.args ?? {},
+      returns:
+        tConfig.returns &&
+        tracedResultValidator(tConfig.returns, { trace: vTraceSnapshot }),
+      handler: this.createReactiveTracedHandler<Ctx, Args, Handler, Output>(
+        tConfig,
+      ),
+    });
+  };
+
   /**
    * Creates a traced mutation.
    * @example
@@ -405,21 +961,24 @@ export class Tracer<DataModel extends GenericDataModel> {
     Args extends PropertyValidators | EmptyObject,
     Handler extends TracerHandler<Ctx, Args>,
     Output extends ExtractOutput<Handler>,
+    FnMode extends ResultMode = Mode,
   >(
-    tConfig: TracedFunctionConfig<Ctx, Args, Handler, Output>,
+    tConfig: TracedFunctionConfig<Ctx, Args, Handler, Output, FnMode>,
   ): RegisteredMutation<
     "public",
     TracerArgs<Args>,
-    TracedResult<ExtractOutput<Handler>>
+    TracedReturn<FnMode, ExtractOutput<Handler>>
   > => {
     return mutationGeneric({
       args: {
         ...tConfig.args,
         __traceContext,
       },
-      handler: this.createTracedHandler<Ctx, Args, Handler, Output>(
+      returns: this.tracedReturns(tConfig),
+      handler: this.createTracedHandler<Ctx, Args, Handler, Output, FnMode>(
         tConfig,
         "mutation",
+        "public",
         "anonymous-mutation",
       ),
     });
@@ -464,21 +1023,24 @@ export class Tracer<DataModel extends GenericDataModel> {
     Args extends PropertyValidators | EmptyObject,
     Handler extends TracerHandler<Ctx, Args>,
     Output extends ExtractOutput<Handler>,
+    FnMode extends ResultMode = Mode,
   >(
-    tConfig: TracedFunctionConfig<Ctx, Args, Handler, Output>,
+    tConfig: TracedFunctionConfig<Ctx, Args, Handler, Output, FnMode>,
   ): RegisteredMutation<
     "internal",
     TracerArgs<Args>,
-    TracedResult<ExtractOutput<Handler>>
+    TracedReturn<FnMode, ExtractOutput<Handler>>
   > => {
     return internalMutationGeneric({
       args: {
         ...tConfig.args,
         __traceContext,
       },
-      handler: this.createTracedHandler<Ctx, Args, Handler, Output>(
+      returns: this.tracedReturns(tConfig),
+      handler: this.createTracedHandler<Ctx, Args, Handler, Output, FnMode>(
         tConfig,
         "mutation",
+        "internal",
         "anonymous-internal-mutation",
       ),
     });
@@ -502,17 +1064,24 @@ export class Tracer<DataModel extends GenericDataModel> {
     Args extends PropertyValidators | EmptyObject,
     Handler extends TracerHandler<Ctx, Args>,
     Output extends ExtractOutput<Handler>,
+    FnMode extends ResultMode = Mode,
   >(
-    tConfig: TracedFunctionConfig<Ctx, Args, Handler, Output>,
-  ): RegisteredAction<"public", TracerArgs<Args>, TracedResult<Output>> => {
+    tConfig: TracedFunctionConfig<Ctx, Args, Handler, Output, FnMode>,
+  ): RegisteredAction<
+    "public",
+    TracerArgs<Args>,
+    TracedReturn<FnMode, Output>
+  > => {
     return actionGeneric({
       args: {
         ...tConfig.args,
         __traceContext,
       },
-      handler: this.createTracedHandler<Ctx, Args, Handler, Output>(
+      returns: this.tracedReturns(tConfig),
+      handler: this.createTracedHandler<Ctx, Args, Handler, Output, FnMode>(
         tConfig,
         "action",
+        "public",
         "anonymous-action",
       ),
     });
@@ -536,22 +1105,573 @@ export class Tracer<DataModel extends GenericDataModel> {
     Args extends PropertyValidators | EmptyObject,
     Handler extends TracerHandler<Ctx, Args>,
     Output extends ExtractOutput<Handler>,
+    FnMode extends ResultMode = Mode,
   >(
-    tConfig: TracedFunctionConfig<Ctx, Args, Handler, Output>,
-  ): RegisteredAction<"internal", TracerArgs<Args>, TracedResult<Output>> => {
+    tConfig: TracedFunctionConfig<Ctx, Args, Handler, Output, FnMode>,
+  ): RegisteredAction<
+    "internal",
+    TracerArgs<Args>,
+    TracedReturn<FnMode, Output>
+  > => {
     return internalActionGeneric({
       args: {
         ...tConfig.args,
         __traceContext,
       },
-      handler: this.createTracedHandler<Ctx, Args, Handler, Output>(
+      returns: this.tracedReturns(tConfig),
+      handler: this.createTracedHandler<Ctx, Args, Handler, Output, FnMode>(
         tConfig,
         "action",
+        "internal",
         "anonymous-internal-action",
       ),
     });
   };
 
+  /**
+   * Creates an http action that serves completed traces as OTLP/JSON,
+   * so an OpenTelemetry collector can pull them.
+   *
+   * `GET ?traceId=<id>` returns a single trace, otherwise the most recent
+   * completed traces are returned, optionally filtered by `status`,
+   * `userId`, `tenantId` and `limit`.
+   * @example
+   * ```ts
+   * // convex/http.ts
+   * http.route({
+   *   path: "/traces/otlp",
+   *   method: "GET",
+   *   handler: otlpHttpAction({
+   *     serviceName: "shop",
+   *     authorize: (ctx, request) =>
+   *       !!process.env.OTLP_TOKEN &&
+   *       request.headers.get("Authorization") ===
+   *         `Bearer ${process.env.OTLP_TOKEN}`,
+   *   }),
+   * });
+   * ```
+   */
+  otlpHttpAction = (options: OtlpHttpActionOptions) => {
+    const { authorize, maxTraces = 100, ...exportOptions } = options;
+
+    return httpActionGeneric(async (ctx, request) => {
+      if (!(await authorize(ctx, request))) {
+        return new Response("Unauthorized", { status: 401 });
+      }
+
+      const params = new URL(request.url).searchParams;
+      const traceId = params.get("traceId");
+
+      let traces: CompleteTrace[];
+      if (traceId) {
+        const trace = await ctx.runQuery(this.component.lib.getTrace, {
+          traceId,
+        });
+        if (!trace) return new Response("Trace not found", { status: 404 });
+        traces = [trace];
+      } else {
+        const status = params.get("status");
+        if (status && !["pending", "success", "error"].includes(status)) {
+          return new Response(`Invalid status: ${status}`, { status: 400 });
+        }
+
+        const limit = Math.min(Number(params.get("limit") ?? 20), maxTraces);
+        const summaries = await ctx.runQuery(this.component.lib.listTraces, {
+          status: (status ?? undefined) as
+            | Infer<typeof statusValidator>
+            | undefined,
+          userId: params.get("userId") ?? undefined,
+          tenantId: params.get("tenantId") ?? undefined,
+          limit: Number.isFinite(limit) && limit > 0 ? limit : 20,
+        });
+
+        const completeTraces = await Promise.all(
+          summaries
+            .filter((trace) => status || trace.status !== "pending")
+            .map((trace) =>
+              ctx.runQuery(this.component.lib.getTrace, {
+                traceId: trace._id,
+              }),
+            ),
+        );
+        traces = completeTraces.filter((trace) => trace !== null);
+      }
+
+      return new Response(
+        JSON.stringify(toOtlpExportRequest(traces, exportOptions)),
+        { status: 200, headers: { "Content-Type": "application/json" } },
+      );
+    });
+  };
+
+  /**
+   * Creates a traced http action. Each request gets a root span named after
+   * its method and path, recording the status code and duration.
+   *
+   * An inbound W3C `traceparent` header is stored on the trace as its
+   * external parent, so OTLP exports join the caller's trace. The response
+   * carries a `traceresponse` header and an `X-Trace-Id` header with the
+   * trace id from the component. With `headSampling`, requests that aren't
+   * sampled are only written when they are preserved, and otherwise get
+   * neither header.
+   * @example
+   * ```ts
+   * http.route({
+   *   path: "/webhooks/stripe",
+   *   method: "POST",
+   *   handler: tracedHttpAction({
+   *     handler: async (ctx, request) => {
+   *       await ctx.tracer.info("Received webhook");
+   *       await ctx.runTracedMutation(internal.payments.handleEvent, {
+   *         event: await request.json(),
+   *       });
+   *       return new Response(null, { status: 200 });
+   *     },
+   *   }),
+   * });
+   * ```
+   */
+  tracedHttpAction = (tConfig: TracedHttpActionConfig<DataModel>) => {
+    const redact = this.createRedactor(tConfig.redact);
+    const sampleRate = tConfig.sampleRate ?? this.sampleRate;
+    const retentionMinutes = tConfig.retentionMinutes ?? this.retentionMinutes;
+    const preserveErrors = tConfig.preserveErrors ?? this.preserveErrors;
+    const bufferWrites = tConfig.bufferWrites ?? this.bufferWrites;
+
+    return httpActionGeneric(async (ctx, request) => {
+      const startTime = Date.now();
+      const { pathname } = new URL(request.url);
+      const spanName = tConfig.name ?? `${request.method} ${pathname}`;
+      const traceParent = parseTraceparent(request.headers.get("traceparent"));
+
+      const { spanId, traceContext, deferred } = await setupTraceContext(
+        ctx as any,
+        this.component,
+        undefined,
+        startTime,
+        spanName,
+        sampleRate,
+        retentionMinutes,
+        preserveErrors,
+        this.headSampling,
+        this.identify,
+        { functionName: spanName },
+        traceParent ? { traceparent: traceParent } : {},
+      );
+
+      const enhancedCtx = this.createEnhancedContext(
+        ctx as any,
+        {
+          ...traceContext,
+          otlpTraceId: traceParent?.traceId ?? traceContext.otlpTraceId,
+        },
+        "action",
+        {
+          buffer:
+            deferred ??
+            (bufferWrites ? new TraceBuffer(ctx, this.component) : undefined),
+          redact,
+        },
+      ) as ActionCtxWithTracer<DataModel>;
+      const tracer = enhancedCtx.tracer as TracingAPI;
+
+      let response: Response;
+      let error: unknown;
+      try {
+        response = await tConfig.handler(enhancedCtx, request);
+      } catch (e) {
+        error = e;
+        response = new Response("Internal Server Error", { status: 500 });
+      }
+
+      const status =
+        error !== undefined || response.status >= 500 ? "error" : "success";
+      const endTime = Date.now();
+
+      await tracer.updateMetadata({
+        "http.request.method": request.method,
+        "url.path": pathname,
+        "http.response.status_code": response.status,
+      });
+      if (status === "error" && preserveErrors) await tracer.preserve();
+
+      const ids = await tracer.finish(
+        {
+          spanId,
+          endTime,
+          duration: endTime - startTime,
+          status,
+          ...(error !== undefined
+            ? {
+                error: error instanceof Error ? error.message : String(error),
+                exception: toException(error, false),
+              }
+            : status === "error" && { error: response.statusText }),
+        },
+        {
+          status,
+          exporter: this.exporter,
+          samplingRules: this.samplingRules,
+          cleanupAfterMs: cleanupDelay(
+            traceContext.sampled ? 1 : sampleRate,
+            retentionMinutes,
+            this.samplingRules,
+          ),
+        },
+      );
+
+      // Copy the response, since headers of fetched responses are immutable
+      const traced = new Response(response.body, response);
+      // An unsampled trace that wasn't preserved has no ids to return
+      if (ids) {
+        traced.headers.set(
+          "traceresponse",
+          formatTraceparent(
+            traceParent?.traceId ?? toOtlpTraceId(ids.traceId),
+            toOtlpSpanId(ids.spanId),
+          ),
+        );
+        traced.headers.set("X-Trace-Id", ids.traceId);
+      }
+      return traced;
+    });
+  };
+
+  /**
+   * Creates the public mutations used by `TracerProvider` from
+   * `convex-tracer/react` to record spans that happen in the browser and
+   * to persist the traces of reactive traced queries.
+   * Export them from a module and pass that module to the provider.
+   * @example
+   * ```ts
+   * // convex/tracer.ts
+   * export const { startFrontendSpan, finishFrontendSpan, importQueryTrace } =
+   *   frontendApi();
+   *
+   * // App.tsx
+   * <TracerProvider api={api.tracer}>...</TracerProvider>
+   * ```
+   */
+  frontendApi = (): {
+    startFrontendSpan: RegisteredMutation<
+      "public",
+      FrontendSpanStart,
+      Promise<TraceContext>
+    >;
+    finishFrontendSpan: RegisteredMutation<
+      "public",
+      FrontendSpanFinish,
+      Promise<null>
+    >;
+    importQueryTrace: RegisteredMutation<
+      "public",
+      { snapshot: TraceSnapshot },
+      Promise<string | null>
+    >;
+  } => {
+    const startFrontendSpan = mutationGeneric({
+      args: vFrontendSpanStart,
+      handler: async (ctx, args: FrontendSpanStart): Promise<TraceContext> => {
+        const sampling: SamplingConfig = {
+          sampleRate: this.sampleRate,
+          preserveErrors: this.preserveErrors,
+          retentionMinutes: this.retentionMinutes,
+        };
+
+        const span = {
+          spanName: args.name,
+          source: "frontend" as const,
+          startTime: args.startTime,
+        };
+
+        const parent = await this.acceptContext(args.parent, "public");
+        if (parent) {
+          const spanId = await ctx.runMutation(this.component.lib.startSpan, {
+            traceId: parent.traceId,
+            parentSpanId: parent.spanId,
+            span,
+          });
+          return await this.signContext({
+            traceId: parent.traceId,
+            spanId,
+            ...sampling,
+            identity: parent.identity,
+          });
+        }
+
+        const { userId, tenantId, extra } = await this.identify(ctx);
+        const { traceId, spanId } = await ctx.runMutation(
+          this.component.lib.startTrace,
+          {
+            sampleRate: this.sampleRate,
+            metadata: {},
+            source: "frontend",
+            ...traceIdentity({ userId, tenantId, extra }),
+            span,
+          },
+        );
+        return await this.signContext({
+          traceId,
+          spanId,
+          ...sampling,
+          identity: { userId, tenantId },
+        });
+      },
+    });
+
+    const finishFrontendSpan = mutationGeneric({
+      args: vFrontendSpanFinish,
+      handler: async (ctx, args: FrontendSpanFinish): Promise<null> => {
+        const context = await this.acceptContext(args.context, "public");
+        if (!context) throw new Error("Unsigned trace context");
+
+        const { traceId, spanId } = context;
+        const { logs = [], metadata } = args;
+        const redact = this.createRedactor();
+
+        if (args.status === "error" && this.preserveErrors) {
+          await ctx.runMutation(this.component.lib.updateTracePreserve, {
+            traceId,
+            preserve: true,
+          });
+        }
+
+        // The component only completes a pending frontend span of the trace,
+        // and only completes the trace when that span is its root span.
+        await ctx.runMutation(this.component.lib.finish, {
+          traceId,
+          source: "frontend",
+          spanMetadata: metadata
+            ? [{ spanId, metadata: redact(metadata) }]
+            : [],
+          logs: logs.map((log) => ({
+            spanId,
+            log: {
+              ...log,
+              message: redact(log.message),
+              metadata: redact(log.metadata),
+            },
+          })),
+          completions: [
+            {
+              spanId,
+              endTime: args.endTime,
+              duration: args.duration,
+              status: args.status,
+              error: redact(args.error),
+              exception: redact(args.exception),
+            },
+          ],
+          status: args.status,
+          exporter: this.exporter,
+          samplingRules: this.samplingRules,
+          cleanupAfterMs: cleanupDelay(
+            this.sampleRate,
+            this.retentionMinutes,
+            this.samplingRules,
+          ),
+        });
+
+        return null;
+      },
+    });
+
+    const importQueryTrace = mutationGeneric({
+      args: { snapshot: vTraceSnapshot },
+      handler: async (ctx, { snapshot }): Promise<string | null> => {
+        const trusted = await this.verifySnapshot(snapshot);
+        const [root] = snapshot.spans;
+        if (!root || snapshot.preserve === false) return null;
+
+        // An unsigned snapshot may have been changed by the client, so it
+        // can't keep itself or feed the function metrics
+        const traceId = await ctx.runMutation(this.component.lib.importTrace, {
+          ...traceIdentity(await this.identify(ctx)),
+          snapshot: trusted ? snapshot : { ...snapshot, preserve: undefined },
+          metrics: trusted,
+        });
+        await ctx.runMutation(this.component.lib.updateTraceStatus, {
+          traceId,
+          status: root.status,
+          exporter: this.exporter,
+          samplingRules: this.samplingRules,
+        });
+        await scheduleTraceCleanup(
+          ctx,
+          this.component,
+          traceId,
+          snapshot.sampleRate,
+          this.retentionMinutes,
+          this.samplingRules,
+        );
+
+        return traceId;
+      },
+    });
+
+    return { startFrontendSpan, finishFrontendSpan, importQueryTrace };
+  };
+
+  private createTraceApi({
+    authorize,
+    scope = "self",
+    maxTraces = 100,
+  }: TraceApiOptions<DataModel>): TraceApi {
+    const vFilters = {
+      status: v.optional(statusValidator),
+      userId: v.optional(v.string()),
+      tenantId: v.optional(v.string()),
+      metadata: v.optional(v.record(v.string(), v.any())),
+    };
+    const vSearch = { functionName: v.string(), ...vFilters };
+
+    /**
+     * Caps the traces a caller asks for at `maxTraces`, which is also the
+     * number returned without a limit.
+     */
+    const capped = <Args extends { limit?: number }>(args: Args): Args => ({
+      ...args,
+      limit: Math.min(args.limit ?? maxTraces, maxTraces),
+    });
+    const cappedPage = <Args extends { paginationOpts: PaginationOptions }>(
+      args: Args,
+    ): Args => ({
+      ...args,
+      paginationOpts: {
+        ...args.paginationOpts,
+        numItems: Math.min(args.paginationOpts.numItems, maxTraces),
+      },
+    });
+
+    /**
+     * Checks that the caller may perform the operation and returns the user
+     * its traces are limited to, if any.
+     */
+    const authorizeCaller = async (
+      ctx: GenericQueryCtx<DataModel>,
+      operation: TraceApiOperation,
+    ): Promise<string | undefined> => {
+      if (!(await authorize(ctx, operation))) throw new Error("Unauthorized");
+      if (scope === "all") return undefined;
+
+      const { userId } = await this.identify(ctx);
+      if (!userId || userId === "anonymous") throw new Error("Unauthorized");
+      return userId;
+    };
+
+    const scoped = async <Args extends object>(
+      ctx: GenericQueryCtx<DataModel>,
+      operation: TraceApiOperation,
+      args: Args,
+    ): Promise<Args & { userId?: string }> => {
+      const userId = await authorizeCaller(ctx, operation);
+      return userId ? { ...args, userId } : args;
+    };
+
+    /**
+     * Resolves a trace the caller may modify. Traces of other users are
+     * reported as missing, as they are by `getTrace`.
+     */
+    const ownTrace = async (
+      ctx: GenericQueryCtx<DataModel>,
+      operation: TraceApiOperation,
+      traceId: string,
+    ): Promise<void> => {
+      const userId = await authorizeCaller(ctx, operation);
+      const trace = await ctx.runQuery(this.component.lib.getTraceSummary, {
+        traceId,
+      });
+      if (!trace || (userId && trace.userId !== userId)) {
+        throw new Error(`Trace not found: ${traceId}`);
+      }
+    };
+
+    return {
+      listTraces: queryGeneric({
+        args: { ...vFilters, limit: v.optional(v.number()) },
+        returns: v.array(vTrace),
+        handler: async (ctx, args): Promise<Trace[]> =>
+          await ctx.runQuery(
+            this.component.lib.listTraces,
+            await scoped(ctx, "list", capped(args)),
+          ),
+      }),
+      listTracesPaginated: queryGeneric({
+        args: { ...vFilters, paginationOpts: paginationOptsValidator },
+        returns: paginationResultValidator(vTrace),
+        handler: async (ctx, args): Promise<PaginationResult<Trace>> =>
+          await ctx.runQuery(
+            this.component.lib.listTracesPaginated,
+            await scoped(ctx, "list", cappedPage(args)),
+          ),
+      }),
+      searchTraces: queryGeneric({
+        args: { ...vSearch, limit: v.optional(v.number()) },
+        returns: v.array(vTrace),
+        handler: async (ctx, args): Promise<Trace[]> =>
+          await ctx.runQuery(
+            this.component.lib.searchTraces,
+            await scoped(ctx, "search", capped(args)),
+          ),
+      }),
+      searchTracesPaginated: queryGeneric({
+        args: { ...vSearch, paginationOpts: paginationOptsValidator },
+        returns: paginationResultValidator(vTrace),
+        handler: async (ctx, args): Promise<PaginationResult<Trace>> =>
+          await ctx.runQuery(
+            this.component.lib.searchTracesPaginated,
+            await scoped(ctx, "search", cappedPage(args)),
+          ),
+      }),
+      findTracesByTag: queryGeneric({
+        args: {
+          key: v.string(),
+          value: tagValueValidator,
+          limit: v.optional(v.number()),
+        },
+        returns: v.array(vTrace),
+        handler: async (ctx, args): Promise<Trace[]> => {
+          return await ctx.runQuery(
+            this.component.lib.findTracesByTag,
+            await scoped(ctx, "search", capped(args)),
+          );
+        },
+      }),
+      getTrace: queryGeneric({
+        args: { traceId: v.string() },
+        returns: v.union(v.null(), vCompleteTrace),
+        handler: async (ctx, { traceId }): Promise<CompleteTrace | null> => {
+          const userId = await authorizeCaller(ctx, "get");
+          const trace = await ctx.runQuery(this.component.lib.getTrace, {
+            traceId,
+          });
+          return trace && (!userId || trace.userId === userId) ? trace : null;
+        },
+      }),
+      preserveTrace: mutationGeneric({
+        args: { traceId: v.string() },
+        returns: v.null(),
+        handler: async (ctx, { traceId }): Promise<null> => {
+          await ownTrace(ctx, "preserve", traceId);
+          await ctx.runMutation(this.component.lib.updateTracePreserve, {
+            traceId,
+            preserve: true,
+          });
+          return null;
+        },
+      }),
+      deleteTrace: mutationGeneric({
+        args: { traceId: v.string() },
+        returns: v.null(),
+        handler: async (ctx, { traceId }): Promise<null> => {
+          await ownTrace(ctx, "delete", traceId);
+          await ctx.runMutation(this.component.lib.deleteTrace, { traceId });
+          return null;
+        },
+      }),
+    };
+  }
+
   get tracer() {
     return {
       /**
@@ -576,9 +1696,9 @@ export class Tracer<DataModel extends GenericDataModel> {
        * @param status - The status of the traces to retrieve.
        * @param limit - The maximum number of traces to retrieve.
        * @param userId - The ID of the user to retrieve traces for.
-       * @param paginationOpts - Convex pagination options.
-       * @returns A pagination result containing the page of results and a
-       * cursor to continue paginating.
+       * @param tenantId - The ID of the tenant to retrieve traces for.
+       * @param metadata - Values the trace metadata must have.
+       * @returns The matching traces, most recent first.
        * @example
        * ```ts
        * // In a convex function (query, mutation, or action)
@@ -591,6 +1711,8 @@ export class Tracer<DataModel extends GenericDataModel> {
         args: {
           status?: Infer<typeof statusValidator>;
           userId?: string;
+          tenantId?: string;
+          metadata?: Record<string, any>;
           limit?: number;
         },
       ): Promise<Trace[]> => {
@@ -601,22 +1723,205 @@ export class Tracer<DataModel extends GenericDataModel> {
        * Searches for traces by function name.
        * @param functionName - The name of the function to search for.
        * @param userId - The ID of the user to search for.
+       * @param tenantId - The ID of the tenant to search for.
+       * @param metadata - Values the trace metadata must have.
        * @param status - The status of the traces to search for.
+       * @param limit - The maximum number of traces to retrieve.
+       * @returns The matching traces, ordered by relevance.
+       */
+      searchTraces: async (
+        ctx: GenericFunctionContext<DataModel>,
+        args: {
+          functionName: string;
+          userId?: string;
+          tenantId?: string;
+          metadata?: Record<string, any>;
+          status?: Infer<typeof statusValidator>;
+          limit?: number;
+        },
+      ): Promise<Trace[]> => {
+        return await ctx.runQuery(this.component.lib.searchTraces, args);
+      },
+
+      /**
+       * Lists traces one page at a time with optional filtering by status.
+       * @param status - The status of the traces to retrieve.
+       * @param userId - The ID of the user to retrieve traces for.
+       * @param tenantId - The ID of the tenant to retrieve traces for.
+       * @param metadata - Values the trace metadata must have.
        * @param paginationOpts - Convex pagination options.
        * @returns A pagination result containing the page of results and a
        * cursor to continue paginating.
+       * @example
+       * ```ts
+       * export const listTraces = query({
+       *   args: { paginationOpts: paginationOptsValidator },
+       *   handler: async (ctx, args) =>
+       *     await tracer.listTracesPaginated(ctx, args),
+       * });
+       * ```
        */
-      searchTraces: async (
+      listTracesPaginated: async (
+        ctx: GenericFunctionContext<DataModel>,
+        args: {
+          status?: Infer<typeof statusValidator>;
+          userId?: string;
+          tenantId?: string;
+          metadata?: Record<string, any>;
+          paginationOpts: PaginationOptions;
+        },
+      ): Promise<PaginationResult<Trace>> => {
+        return await ctx.runQuery(this.component.lib.listTracesPaginated, args);
+      },
+
+      /**
+       * Searches for traces by function name one page at a time.
+       * @param functionName - The name of the function to search for.
+       * @param userId - The ID of the user to search for.
+       * @param tenantId - The ID of the tenant to search for.
+       * @param metadata - Values the trace metadata must have.
+       * @param status - The status of the traces to search for.
+       * @param paginationOpts - Convex pagination options.
+       * @returns A pagination result containing the page of results and a
+       * cursor to continue paginating.
+       */
+      searchTracesPaginated: async (
         ctx: GenericFunctionContext<DataModel>,
         args: {
           functionName: string;
           userId?: string;
+          tenantId?: string;
+          metadata?: Record<string, any>;
           status?: Infer<typeof statusValidator>;
+          paginationOpts: PaginationOptions;
+        },
+      ): Promise<PaginationResult<Trace>> => {
+        return await ctx.runQuery(
+          this.component.lib.searchTracesPaginated,
+          args,
+        );
+      },
+
+      /**
+       * Lists deliveries from the OTLP exporter outbox, most recent first.
+       * @param status - Only return deliveries with this status, e.g. "dead".
+       * @param limit - The maximum number of deliveries to retrieve.
+       * @example
+       * ```ts
+       * const failed = await tracer.listDeliveries(ctx, { status: "dead" });
+       * ```
+       */
+      listDeliveries: async (
+        ctx: GenericFunctionContext<DataModel>,
+        args: {
+          status?: Delivery["status"];
           limit?: number;
         },
+      ): Promise<Delivery[]> => {
+        return await ctx.runQuery(this.component.exporter.listDeliveries, args);
+      },
+
+      /**
+       * Retries a dead-lettered delivery.
+       * @param deliveryId - The ID of the delivery to retry.
+       */
+      retryDelivery: async (
+        ctx: StrippedGenericFunctionContext<DataModel>,
+        deliveryId: string,
+      ): Promise<void> => {
+        await ctx.runMutation(this.component.exporter.retryDelivery, {
+          deliveryId,
+        });
+      },
+
+      /**
+       * Finds the traces tagged with `ctx.tracer.tag(key, value)`, most
+       * recently tagged first.
+       * @param key - The tag key.
+       * @param value - The tag value.
+       * @param limit - The maximum number of traces to retrieve, 100 by default
+       * and 1000 at most.
+       * @param userId - Only return traces of this user.
+       * @returns The tagged traces.
+       * @example
+       * ```ts
+       * const traces = await tracer.findTracesByTag(ctx, {
+       *   key: "orderId",
+       *   value: orderId,
+       * });
+       * ```
+       */
+      findTracesByTag: async (
+        ctx: GenericFunctionContext<DataModel>,
+        args: {
+          key: string;
+          value: Tag["value"];
+          limit?: number;
+          userId?: string;
+        },
       ): Promise<Trace[]> => {
-        return await ctx.runQuery(this.component.lib.searchTraces, args);
+        return await ctx.runQuery(this.component.lib.findTracesByTag, args);
       },
+
+      /**
+       * Returns call counts, error rates and p50/p95/p99 durations of a traced
+       * function per time bucket, plus a total over the range.
+       * Metrics are kept after the traces themselves are sampled away.
+       * @param functionName - The name of the traced function.
+       * @param from - Start of the range, in ms since epoch.
+       * @param to - End of the range (exclusive), in ms since epoch.
+       * @param bucket - "minute" or "hour". Defaults to "minute".
+       * @example
+       * ```ts
+       * const metrics = await tracer.getFunctionMetrics(ctx, {
+       *   functionName: "createOrder",
+       *   from: Date.now() - 24 * 60 * 60 * 1000,
+       *   to: Date.now(),
+       *   bucket: "hour",
+       * });
+       * ```
+       */
+      getFunctionMetrics: async (
+        ctx: GenericFunctionContext<DataModel>,
+        args: {
+          functionName: string;
+          from: number;
+          to: number;
+          bucket?: FunctionMetrics["bucket"];
+        },
+      ): Promise<FunctionMetrics> => {
+        return await ctx.runQuery(
+          this.component.metrics.getFunctionMetrics,
+          args,
+        );
+      },
+
+      /**
+       * Creates public queries and mutations to list, search, find by tag,
+       * get, preserve and delete traces, checking `authorize` before each
+       * operation.
+       * With the default "self" scope callers only reach their own traces.
+       * @param authorize - Decides whether the caller may perform an operation.
+       * @param scope - "self" (default) or "all".
+       * @example
+       * ```ts
+       * // convex/traces.ts
+       * export const {
+       *   listTraces,
+       *   listTracesPaginated,
+       *   searchTraces,
+       *   searchTracesPaginated,
+       *   findTracesByTag,
+       *   getTrace,
+       *   preserveTrace,
+       *   deleteTrace,
+       * } = tracer.api({
+       *   authorize: async (ctx) => (await ctx.auth.getUserIdentity()) !== null,
+       * });
+       * ```
+       */
+      api: (options: TraceApiOptions<DataModel>): TraceApi =>
+        this.createTraceApi(options),
     };
   }
 }
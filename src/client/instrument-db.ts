@@ -0,0 +1,132 @@
+import type { SpanAPI, TraceAPI } from "./tracer-api/types";
+
+type SpanRunner = Pick<TraceAPI, "withSpan">;
+
+interface QueryInfo {
+  table: string;
+  index?: string;
+}
+
+const QUERY_CHAIN_METHODS = new Set([
+  "withIndex",
+  "withSearchIndex",
+  "fullTableScan",
+  "order",
+  "filter",
+]);
+
+const QUERY_TERMINAL_METHODS = new Set([
+  "collect",
+  "first",
+  "unique",
+  "take",
+  "paginate",
+]);
+
+const WRITE_METHODS = new Set(["insert", "patch", "replace", "delete"]);
+
+function countDocuments(result: unknown): number {
+  if (Array.isArray(result)) return result.length;
+  if (result && typeof result === "object" && "page" in result) {
+    return (result as { page: unknown[] }).page.length;
+  }
+  return result ? 1 : 0;
+}
+
+async function runDbSpan<T>(
+  tracer: SpanRunner,
+  operation: string,
+  info: Partial<QueryInfo>,
+  run: () => Promise<T>,
+): Promise<T> {
+  const spanName = info.table
+    ? `db.${operation} ${info.table}`
+    : `db.${operation}`;
+
+  return await tracer.withSpan(spanName, async (span: SpanAPI) => {
+    const result = await run();
+    await span.updateMetadata({
+      "db.operation": operation,
+      ...(info.table && { "db.table": info.table }),
+      ...(info.index && { "db.index": info.index }),
+      "db.documents": WRITE_METHODS.has(operation) ? 1 : countDocuments(result),
+    });
+    return result;
+  });
+}
+
+function instrumentQuery(query: any, info: QueryInfo, tracer: SpanRunner) {
+  return new Proxy(query, {
+    get(target, prop, receiver) {
+      const value = Reflect.get(target, prop, receiver);
+      if (typeof value !== "function" || typeof prop !== "string") {
+        return value;
+      }
+
+      if (QUERY_CHAIN_METHODS.has(prop)) {
+        return (...args: any[]) => {
+          const index =
+            prop === "withIndex" || prop === "withSearchIndex"
+              ? (args[0] as string)
+              : info.index;
+          return instrumentQuery(
+            value.apply(target, args),
+            { ...info, index },
+            tracer,
+          );
+        };
+      }
+
+      if (QUERY_TERMINAL_METHODS.has(prop)) {
+        return (...args: any[]) =>
+          runDbSpan(tracer, prop, info, () => value.apply(target, args));
+      }
+
+      return value.bind(target);
+    },
+  });
+}
+
+/**
+ * Tables are only known when the table name is passed explicitly,
+ * e.g. `db.get("users", id)` rather than `db.get(id)`.
+ */
+function tableFromArgs(method: string, args: any[]): string | undefined {
+  const idOnlyArity = method === "patch" || method === "replace" ? 2 : 1;
+  if (method === "insert" || args.length > idOnlyArity) {
+    return args[0] as string;
+  }
+  return undefined;
+}
+
+/**
+ * Wraps `ctx.db` so reads and writes are recorded as child spans of the
+ * current span, with the table, index, document count and timing.
+ */
+export function instrumentDb<DB extends object>(
+  db: DB,
+  tracer: SpanRunner,
+): DB {
+  return new Proxy(db, {
+    get(target, prop, receiver) {
+      const value = Reflect.get(target, prop, receiver);
+      if (typeof value !== "function" || typeof prop !== "string") {
+        return value;
+      }
+
+      if (prop === "query") {
+        return (table: string) =>
+          instrumentQuery(value.call(target, table), { table }, tracer);
+      }
+
+      if (prop === "get" || WRITE_METHODS.has(prop)) {
+        return (...args: any[]) =>
+          runDbSpan(tracer, prop, { table: tableFromArgs(prop, args) }, () =>
+            value.apply(target, args),
+          );
+      }
+
+      return value.bind(target);
+    },
+  });
+}
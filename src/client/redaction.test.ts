@@ -0,0 +1,106 @@
+import { describe, expect, test } from "vitest";
+import { hmacSha256Hex } from "./hmac.js";
+import { createRedactor, mergeRedactionConfig } from "./redaction.js";
+import TracingAPI from "./tracer-api/index.js";
+
+const order = {
+  user: { email: "ada@example.com", name: "Ada" },
+  cards: [{ number: "4242 4242 4242 4242", brand: "visa" }],
+  note: "token sk_live_abc123 attached",
+  nested: { deep: { password: "hunter2" } },
+};
+
+describe("createRedactor", () => {
+  test("masks key paths with wildcards", () => {
+    const redact = createRedactor({
+      paths: ["user.email", "cards.*.number", "**.password"],
+    });
+
+    expect(redact(order)).toEqual({
+      ...order,
+      user: { email: "[REDACTED]", name: "Ada" },
+      cards: [{ number: "[REDACTED]", brand: "visa" }],
+      nested: { deep: { password: "[REDACTED]" } },
+    });
+    expect(order.user.email).toBe("ada@example.com");
+  });
+
+  test("scrubs patterns from every string", () => {
+    const redact = createRedactor({ patterns: [/sk_live_\w+/] });
+    expect(redact(order).note).toBe("token [REDACTED] attached");
+    expect(redact("sk_live_1 and sk_live_2")).toBe("[REDACTED] and [REDACTED]");
+  });
+
+  test("hashes or removes values", () => {
+    const hash = createRedactor({
+      paths: ["user.email"],
+      mode: "hash",
+      hashSecret: "secret",
+    });
+    const hashed = hash(order).user.email;
+    expect(hashed).toMatch(/^hash:[0-9a-f]{16}$/);
+    expect(hash(order).user.email).toBe(hashed);
+
+    const otherKey = createRedactor({
+      paths: ["user.email"],
+      mode: "hash",
+      hashSecret: "other",
+    });
+    expect(otherKey(order).user.email).not.toBe(hashed);
+    expect(() =>
+      createRedactor({ paths: ["user.email"], mode: "hash" }),
+    ).toThrow("hashSecret");
+
+    const remove = createRedactor({ paths: ["user.email"], mode: "remove" });
+    expect(remove(order).user).toEqual({ name: "Ada" });
+  });
+
+  test("hashes with HMAC-SHA256", () => {
+    // RFC 4231, test case 2
+    expect(hmacSha256Hex("Jefe", "what do ya want for nothing?")).toBe(
+      "5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843",
+    );
+  });
+
+  test("function config adds to the Tracer config", () => {
+    expect(
+      mergeRedactionConfig(
+        { paths: ["user.email"], mode: "hash" },
+        { paths: ["cards"], mode: "mask" },
+      ),
+    ).toEqual({ paths: ["user.email", "cards"], patterns: [], mode: "mask" });
+  });
+});
+
+test("TracingAPI redacts before writing to the component", async () => {
+  const calls: any[] = [];
+  const ctx = {
+    runMutation: async (_ref: unknown, args: unknown) => calls.push(args),
+  };
+  const tracer = new TracingAPI(
+    ctx as any,
+    { lib: {} } as any,
+    "trace",
+    "span",
+    { preserveErrors: true },
+    undefined,
+    createRedactor({ paths: ["email"], patterns: [/\d{16}/] }),
+  );
+
+  await tracer.info("card 4242424242424242", { email: "ada@example.com" });
+  await tracer.updateMetadata({ email: "ada@example.com" });
+  await tracer.completeSpan({
+    spanId: "span",
+    endTime: 1,
+    duration: 1,
+    status: "success",
+    result: { email: "ada@example.com" },
+  });
+
+  expect(calls[0].log).toMatchObject({
+    message: "card [REDACTED]",
+    metadata: { email: "[REDACTED]" },
+  });
+  expect(calls[1].metadata).toEqual({ email: "[REDACTED]" });
+  expect(calls[2].result).toEqual({ email: "[REDACTED]" });
+});
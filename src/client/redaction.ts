@@ -0,0 +1,116 @@
+import { hmacSha256Hex } from "./hmac";
+import type { RedactionConfig } from "./types";
+
+export type Redactor = <T>(value: T) => T;
+
+const DEFAULT_REPLACEMENT = "[REDACTED]";
+
+/**
+ * Combines the Tracer's redaction config with a function's own config.
+ * Paths and patterns add up, scalar options are overridden.
+ */
+export function mergeRedactionConfig(
+  base: RedactionConfig | undefined,
+  override: RedactionConfig | undefined,
+): RedactionConfig | undefined {
+  if (!base || !override) return override ?? base;
+
+  return {
+    ...base,
+    ...override,
+    paths: [...(base.paths ?? []), ...(override.paths ?? [])],
+    patterns: [...(base.patterns ?? []), ...(override.patterns ?? [])],
+  };
+}
+
+function matchesPath(pattern: string[], path: string[]): boolean {
+  if (pattern.length === 0) return path.length === 0;
+
+  const [head, ...rest] = pattern;
+  if (head === "**") {
+    for (let i = 0; i <= path.length; i++) {
+      if (matchesPath(rest, path.slice(i))) return true;
+    }
+    return false;
+  }
+  if (path.length === 0) return false;
+  if (head !== "*" && head !== path[0]) return false;
+  return matchesPath(rest, path.slice(1));
+}
+
+/**
+ * Replaces every query string value in a URL, keeping the parameter names.
+ */
+export function redactQueryString(
+  url: URL,
+  replacement: string = DEFAULT_REPLACEMENT,
+): string {
+  const base = `${url.origin}${url.pathname}`;
+  if (!url.search) return base;
+
+  const params = [...url.searchParams.keys()].map(
+    (key) => `${encodeURIComponent(key)}=${replacement}`,
+  );
+  return `${base}?${params.join("&")}`;
+}
+
+const noRedaction: Redactor = (value) => value;
+
+/**
+ * Creates a function that returns a redacted deep copy of a value.
+ * Throws when `mode` is "hash" and no `hashSecret` is set.
+ */
+export function createRedactor(config: RedactionConfig | undefined): Redactor {
+  const paths = (config?.paths ?? []).map((path) => path.split("."));
+  const patterns = (config?.patterns ?? []).map((pattern) =>
+    pattern.global ? pattern : new RegExp(pattern.source, `${pattern.flags}g`),
+  );
+  if (paths.length === 0 && patterns.length === 0) return noRedaction;
+
+  const replacement = config?.replacement ?? DEFAULT_REPLACEMENT;
+  const mode = config?.mode ?? "mask";
+  const hashSecret = config?.hashSecret;
+  if (mode === "hash" && !hashSecret) {
+    throw new Error(
+      'Redaction mode "hash" needs a hashSecret or the Tracer\'s signingSecret',
+    );
+  }
+
+  const isRedacted = (path: string[]) =>
+    paths.some((pattern) => matchesPath(pattern, path));
+
+  const replace = (value: unknown) =>
+    mode === "hash"
+      ? `hash:${hmacSha256Hex(hashSecret!, JSON.stringify(value) ?? "").slice(0, 16)}`
+      : replacement;
+
+  const visit = (value: unknown, path: string[]): unknown => {
+    if (typeof value === "string") {
+      return patterns.reduce(
+        (text, pattern) => text.replace(pattern, replacement),
+        value,
+      );
+    }
+    if (value === null || typeof value !== "object") return value;
+
+    const entries = Array.isArray(value)
+      ? value.map((item, i) => [String(i), item] as const)
+      : Object.entries(value);
+
+    const result: [string, unknown][] = [];
+    for (const [key, item] of entries) {
+      const itemPath = [...path, key];
+      if (!isRedacted(itemPath)) {
+        result.push([key, visit(item, itemPath)]);
+      } else if (mode !== "remove") {
+        result.push([key, replace(item)]);
+      }
+    }
+
+    return Array.isArray(value)
+      ? result.map(([, item]) => item)
+      : Object.fromEntries(result);
+  };
+
+  return <T>(value: T) => visit(value, []) as T;
+}
@@ -0,0 +1,93 @@
+import { describe, expect, test } from "vitest";
+import {
+  signTraceContext,
+  signTraceSnapshot,
+  verifyTraceContext,
+  verifyTraceSnapshot,
+} from "./signing.js";
+import type { TraceSnapshot } from "../component/types.js";
+import type { TraceContext } from "./types.js";
+
+const context: TraceContext = {
+  traceId: "trace1",
+  spanId: "span1",
+  sampleRate: 0.1,
+  retentionMinutes: 120,
+  preserveErrors: true,
+};
+
+describe("signTraceContext", () => {
+  test("signs contexts that verify with the same secret only", async () => {
+    const signed = await signTraceContext(context, "secret");
+
+    expect(signed.signature).toMatch(/^[0-9a-f]{64}$/);
+    await expect(verifyTraceContext(signed, "secret")).resolves.toBe(true);
+    await expect(verifyTraceContext(signed, "other")).resolves.toBe(false);
+  });
+
+  test("rejects contexts whose fields were changed", async () => {
+    const signed = await signTraceContext(context, "secret");
+
+    for (const forged of [
+      { ...signed, traceId: "trace2" },
+      { ...signed, sampleRate: 1 },
+      { ...signed, sampled: true },
+      { ...signed, identity: { tenantId: "tenant2" } },
+      { ...signed, signature: "not-hex" },
+      { ...context },
+    ]) {
+      await expect(verifyTraceContext(forged, "secret")).resolves.toBe(false);
+    }
+  });
+
+  test("re-signs a context passed on with a new span", async () => {
+    const signed = await signTraceContext(context, "secret");
+    const child = await signTraceContext(
+      { ...signed, spanId: "span2" },
+      "secret",
+    );
+
+    expect(child.signature).not.toBe(signed.signature);
+    await expect(verifyTraceContext(child, "secret")).resolves.toBe(true);
+  });
+});
+
+describe("signTraceSnapshot", () => {
+  const snapshot: TraceSnapshot = {
+    sampleRate: 0.1,
+    spans: [
+      {
+        id: "span1",
+        spanName: "listOrders",
+        startTime: 1,
+        endTime: 1,
+        duration: 0,
+        status: "success",
+        result: { total: 2, items: ["a", "b"] },
+        logs: [],
+      },
+    ],
+  };
+
+  test("verifies after a round trip through a client", async () => {
+    const signed = await signTraceSnapshot(snapshot, "secret");
+    const received = JSON.parse(
+      JSON.stringify({ signature: signed.signature, ...snapshot }),
+    );
+
+    await expect(verifyTraceSnapshot(received, "secret")).resolves.toBe(true);
+    await expect(verifyTraceSnapshot(signed, "other")).resolves.toBe(false);
+  });
+
+  test("rejects snapshots whose contents were changed", async () => {
+    const signed = await signTraceSnapshot(snapshot, "secret");
+
+    for (const forged of [
+      { ...signed, preserve: true },
+      { ...signed, spans: [{ ...signed.spans[0], duration: 5000 }] },
+      { ...snapshot },
+    ]) {
+      await expect(verifyTraceSnapshot(forged, "secret")).resolves.toBe(false);
+    }
+  });
+});
@@ -0,0 +1,133 @@
+import { convexToJson } from "convex/values";
+import type { TraceSnapshot } from "../component/types";
+import type { TraceContext } from "./types";
+
+const keys = new Map<string, Promise<CryptoKey>>();
+
+function importKey(secret: string): Promise<CryptoKey> {
+  let key = keys.get(secret);
+  if (!key) {
+    key = crypto.subtle.importKey(
+      "raw",
+      new TextEncoder().encode(secret),
+      { name: "HMAC", hash: "SHA-256" },
+      false,
+      ["sign", "verify"],
+    );
+    keys.set(secret, key);
+  }
+  return key;
+}
+
+/**
+ * The signed fields in a fixed order, so a context always gives the same
+ * bytes however its keys were ordered on the way.
+ */
+function payload(context: TraceContext): Uint8Array<ArrayBuffer> {
+  return new TextEncoder().encode(
+    JSON.stringify([
+      context.traceId,
+      context.spanId,
+      context.sampleRate,
+      context.retentionMinutes,
+      context.preserveErrors,
+      context.scheduledAt,
+      context.sampled,
+      context.otlpTraceId,
+      context.identity?.userId,
+      context.identity?.tenantId,
+    ]),
+  );
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer), (byte) =>
+    byte.toString(16).padStart(2, "0"),
+  ).join("");
+}
+
+function fromHex(hex: string): Uint8Array<ArrayBuffer> | undefined {
+  if (!/^(?:[0-9a-f]{2})+$/.test(hex)) return undefined;
+  return new Uint8Array(hex.match(/../g)!.map((byte) => parseInt(byte, 16)));
+}
+
+/**
+ * Adds an HMAC-SHA256 `signature` over the context's fields, replacing any
+ * signature it already had.
+ */
+export async function signTraceContext(
+  context: TraceContext,
+  secret: string,
+): Promise<TraceContext> {
+  const { signature: _, ...unsigned } = context;
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    await importKey(secret),
+    payload(unsigned),
+  );
+  return { ...unsigned, signature: toHex(signature) };
+}
+
+/**
+ * Whether the context's `signature` was made with the secret over its
+ * current fields.
+ */
+export async function verifyTraceContext(
+  context: TraceContext,
+  secret: string,
+): Promise<boolean> {
+  const signature = context.signature && fromHex(context.signature);
+  if (!signature) return false;
+
+  return await crypto.subtle.verify(
+    "HMAC",
+    await importKey(secret),
+    signature,
+    payload(context),
+  );
+}
+
+/**
+ * A snapshot as canonical JSON: `convexToJson` sorts object keys and drops
+ * undefined fields, so the bytes survive the round trip through a client.
+ */
+function snapshotPayload(snapshot: TraceSnapshot): Uint8Array<ArrayBuffer> {
+  return new TextEncoder().encode(JSON.stringify(convexToJson(snapshot)));
+}
+
+/**
+ * Adds an HMAC-SHA256 `signature` over a reactive query's trace snapshot, so
+ * a client can only import snapshots the query returned.
+ */
+export async function signTraceSnapshot(
+  snapshot: TraceSnapshot,
+  secret: string,
+): Promise<TraceSnapshot> {
+  const { signature: _, ...unsigned } = snapshot;
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    await importKey(secret),
+    snapshotPayload(unsigned),
+  );
+  return { ...unsigned, signature: toHex(signature) };
+}
+
+/**
+ * Whether the snapshot's `signature` was made with the secret over its
+ * current contents.
+ */
+export async function verifyTraceSnapshot(
+  snapshot: TraceSnapshot,
+  secret: string,
+): Promise<boolean> {
+  const { signature: hex, ...unsigned } = snapshot;
+  const signature = hex && fromHex(hex);
+  if (!signature) return false;
+
+  return await crypto.subtle.verify(
+    "HMAC",
+    await importKey(secret),
+    signature,
+    snapshotPayload(unsigned),
+  );
+}
@@ -0,0 +1,186 @@
+import type { FunctionArgs } from "convex/server";
+
+import type { ComponentApi } from "../../component/_generated/component";
+import type { StrippedGenericFunctionContext } from "../types";
+
+type Batch = Required<FunctionArgs<ComponentApi["lib"]["writeBatch"]>>;
+type TraceStart = NonNullable<
+  FunctionArgs<ComponentApi["lib"]["finish"]>["start"]
+>;
+
+export type BufferedLog = Batch["logs"][number];
+export type BufferedSpanMetadata = Batch["spanMetadata"][number];
+export type BufferedTag = Batch["tags"][number];
+export type BufferedCompletion = Batch["completions"][number];
+export type BufferedException = Batch["exceptions"][number];
+export type BufferedSpan = Omit<TraceStart["spans"][number], "localId">;
+export type DeferredTrace = TraceStart["trace"];
+
+/**
+ * Holds trace and span metadata, tags, logs, exceptions and span completions
+ * in memory until they are flushed to the component in a single `writeBatch`
+ * mutation.
+ * One buffer is shared by a traced function and all of its withSpan() children.
+ *
+ * A deferred buffer also holds the spans of a trace that wasn't head
+ * sampled, under local ids. Nothing is flushed; the trace is only created by
+ * the final `finish` mutation when it was preserved, and a deferred buffer
+ * without a trace belongs to a call inside such a trace and never writes.
+ */
+export default class TraceBuffer {
+  private logs: BufferedLog[] = [];
+  private traceMetadata = new Map<string, Record<string, any>>();
+  private tags: BufferedTag[] = [];
+  private spanMetadata = new Map<string, Record<string, any>>();
+  private exceptions: BufferedException[] = [];
+  private completions: BufferedCompletion[] = [];
+  private spans: TraceStart["spans"] = [];
+  private deferredTags: NonNullable<TraceStart["tags"]> = [];
+  private preserveFlag: boolean | undefined;
+
+  constructor(
+    private ctx: StrippedGenericFunctionContext<any>,
+    private component: ComponentApi,
+    private deferred?: { trace?: DeferredTrace },
+  ) {}
+
+  get isDeferred(): boolean {
+    return this.deferred !== undefined;
+  }
+
+  get isEmpty(): boolean {
+    return (
+      this.logs.length === 0 &&
+      this.traceMetadata.size === 0 &&
+      this.tags.length === 0 &&
+      this.spanMetadata.size === 0 &&
+      this.exceptions.length === 0 &&
+      this.completions.length === 0
+    );
+  }
+
+  addLog(spanId: string, log: BufferedLog["log"]): void {
+    this.logs.push({ spanId, log });
+  }
+
+  /**
+   * Merges metadata into a trace. A deferred trace keeps it until it is
+   * created, and a call inside one drops it like its other writes.
+   */
+  updateTraceMetadata(traceId: string, metadata: Record<string, any>): void {
+    if (this.deferred) {
+      const trace = this.deferred.trace;
+      if (trace) trace.metadata = { ...trace.metadata, ...metadata };
+      return;
+    }
+
+    this.traceMetadata.set(traceId, {
+      ...this.traceMetadata.get(traceId),
+      ...metadata,
+    });
+  }
+
+  /**
+   * Tags a trace. A deferred trace is tagged once it is created.
+   */
+  addTag(tag: BufferedTag): void {
+    if (this.deferred) {
+      if (this.deferred.trace) {
+        this.deferredTags.push({ key: tag.key, value: tag.value });
+      }
+      return;
+    }
+
+    this.tags.push(tag);
+  }
+
+  updateSpanMetadata(spanId: string, metadata: Record<string, any>): void {
+    this.spanMetadata.set(spanId, {
+      ...this.spanMetadata.get(spanId),
+      ...metadata,
+    });
+  }
+
+  recordException(exception: BufferedException): void {
+    this.exceptions.push(exception);
+  }
+
+  completeSpan(completion: BufferedCompletion): void {
+    this.completions.push(completion);
+  }
+
+  /**
+   * Starts a span of a deferred trace and returns its local id.
+   */
+  startSpan(span: BufferedSpan): string {
+    const localId = `local:${this.spans.length}`;
+    this.spans.push({ ...span, localId });
+    return localId;
+  }
+
+  /**
+   * Records tracer.preserve(), discard() or sample() on a deferred trace,
+   * which is only written when preserved.
+   */
+  setPreserve(preserve: boolean | undefined): void {
+    this.preserveFlag = preserve;
+  }
+
+  /**
+   * The trace and spans for `finish` to create, or undefined when a
+   * deferred trace is dropped.
+   */
+  takeStart(): TraceStart | undefined {
+    if (!this.deferred?.trace || this.preserveFlag !== true) return undefined;
+    return {
+      trace: { ...this.deferred.trace, preserve: true },
+      spans: this.spans,
+      tags: this.deferredTags,
+    };
+  }
+
+  /**
+   * Returns everything buffered so far and empties the buffer.
+   */
+  drain(): Batch {
+    const batch: Batch = {
+      traceMetadata: [...this.traceMetadata].map(([traceId, metadata]) => ({
+        traceId,
+        metadata,
+      })),
+      tags: this.tags,
+      spanMetadata: [...this.spanMetadata].map(([spanId, metadata]) => ({
+        spanId,
+        metadata,
+      })),
+      logs: this.logs,
+      exceptions: this.exceptions,
+      completions: this.completions,
+    };
+
+    this.logs = [];
+    this.traceMetadata = new Map();
+    this.tags = [];
+    this.spanMetadata = new Map();
+    this.exceptions = [];
+    this.completions = [];
+
+    return batch;
+  }
+
+  /**
+   * Writes everything buffered so far and empties the buffer. A deferred
+   * buffer keeps its writes for `finish`.
+   */
+  async flush(): Promise<void> {
+    if (this.isEmpty || this.isDeferred) return;
+
+    const batch = this.drain();
+
+    await this.ctx
+      .runMutation(this.component.lib.writeBatch, batch)
+      .catch((err) =>
+        console.error("[Tracer] Failed to flush buffered writes:", err),
+      );
+  }
+}
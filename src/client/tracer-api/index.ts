@@ -5,10 +5,38 @@ import type {
 } from "convex/server";
 
 import type { ComponentApi } from "../../component/_generated/component";
+import type { ExporterConfig, SamplingRule } from "../../component/types";
+import {
+  formatTraceparent,
+  toOtlpSpanId,
+  toOtlpTraceId,
+} from "../../component/otlp";
+import { toException } from "../exceptions";
+import { redactQueryString, type Redactor } from "../redaction";
 import type { TracerConfig } from "../types";
-import type { SpanAPI, TraceAPI } from "./types";
+import type TraceBuffer from "./buffer";
+import type { BufferedCompletion } from "./buffer";
+import type { ActionTraceAPI, SpanAPI } from "./types";
 
-export default class TracingAPI implements TraceAPI {
+type Severity = "info" | "warn" | "error";
+
+interface FunctionCall {
+  spanName: string;
+  functionName: string;
+  args?: unknown;
+  logReturn?: boolean;
+  /** Returns the error of a call that failed without throwing. */
+  errorOf?: (result: unknown) => string | undefined;
+}
+
+interface FinishOptions {
+  status?: "success" | "error";
+  exporter?: ExporterConfig;
+  samplingRules?: SamplingRule[];
+  cleanupAfterMs?: number;
+}
+
+export default class TracingAPI implements ActionTraceAPI {
   constructor(
     private ctx:
       | GenericMutationCtx<GenericDataModel>
@@ -17,23 +45,157 @@ export default class TracingAPI implements TraceAPI {
     private traceId: string,
     private spanId: string,
     private config: TracerConfig,
+    private buffer?: TraceBuffer,
+    private redact: Redactor = (value) => value,
+    private otlpTraceId: string = toOtlpTraceId(traceId),
   ) {}
 
   private async addLog(
-    severity: "info" | "warn" | "error",
+    spanId: string,
+    severity: Severity,
     message: string,
     metadata?: Record<string, any>,
   ): Promise<void> {
+    const log = {
+      timestamp: Date.now(),
+      severity,
+      message: this.redact(message),
+      metadata: this.redact(metadata),
+    };
+
+    if (this.buffer) {
+      this.buffer.addLog(spanId, log);
+      return;
+    }
+
     await this.ctx
-      .runMutation(this.component.lib.addLog, {
-        spanId: this.spanId,
-        log: { timestamp: Date.now(), severity, message, metadata },
-      })
+      .runMutation(this.component.lib.addLog, { spanId, log })
       .catch((err) =>
         console.error(`[Tracer] Failed to add ${severity} log:`, err),
       );
   }
 
+  private async setSpanMetadata(
+    spanId: string,
+    rawMetadata: Record<string, any>,
+  ): Promise<void> {
+    const metadata = this.redact(rawMetadata);
+
+    if (this.buffer) {
+      this.buffer.updateSpanMetadata(spanId, metadata);
+      return;
+    }
+
+    await this.ctx
+      .runMutation(this.component.lib.updateSpanMetadata, {
+        spanId,
+        metadata,
+      })
+      .catch((err) => console.error("[Tracer] Failed to set metadata:", err));
+  }
+
+  private async mergeTraceMetadata(
+    rawMetadata: Record<string, any>,
+  ): Promise<void> {
+    const metadata = this.redact(rawMetadata);
+
+    if (this.buffer) {
+      this.buffer.updateTraceMetadata(this.traceId, metadata);
+      return;
+    }
+
+    await this.ctx
+      .runMutation(this.component.lib.updateTraceMetadata, {
+        traceId: this.traceId,
+        metadata,
+      })
+      .catch((err) =>
+        console.error("[Tracer] Failed to set trace metadata:", err),
+      );
+  }
+
+  private async addTag(
+    key: string,
+    rawValue: string | number | boolean,
+  ): Promise<void> {
+    const tag = { traceId: this.traceId, key, value: this.redact(rawValue) };
+
+    if (this.buffer) {
+      this.buffer.addTag(tag);
+      return;
+    }
+
+    await this.ctx
+      .runMutation(this.component.lib.addTag, tag)
+      .catch((err) => console.error("[Tracer] Failed to add tag:", err));
+  }
+
+  private async addException(spanId: string, error: unknown): Promise<void> {
+    const exception = this.redact(toException(error, true));
+
+    if (this.buffer) {
+      this.buffer.recordException({ spanId, exception });
+      return;
+    }
+
+    await this.ctx
+      .runMutation(this.component.lib.recordException, { spanId, exception })
+      .catch((err) =>
+        console.error("[Tracer] Failed to record exception:", err),
+      );
+  }
+
+  private redactCompletion(completion: BufferedCompletion): BufferedCompletion {
+    return {
+      ...completion,
+      result: this.redact(completion.result),
+      error: this.redact(completion.error),
+      exception: this.redact(completion.exception),
+    };
+  }
+
+  /**
+   * Starts a child span, in memory when the trace is deferred.
+   */
+  private async startSpan(span: {
+    parentSpanId: string;
+    spanName: string;
+    startTime: number;
+    functionName?: string;
+    args?: unknown;
+  }): Promise<string> {
+    if (this.buffer?.isDeferred) {
+      return this.buffer.startSpan({ ...span, source: "backend" });
+    }
+
+    return await this.ctx.runMutation(this.component.lib.createSpan, {
+      traceId: this.traceId,
+      span: { ...span, source: "backend", status: "pending" },
+    });
+  }
+
+  /**
+   * Records the completion of a span.
+   * Buffered completions are written on the next flush().
+   */
+  async completeSpan(rawCompletion: BufferedCompletion): Promise<void> {
+    const completion = this.redactCompletion(rawCompletion);
+
+    if (this.buffer) {
+      this.buffer.completeSpan(completion);
+      return;
+    }
+
+    await this.ctx
+      .runMutation(this.component.lib.completeSpan, completion)
+      .catch((err) =>
+        console.error(
+          `[Tracer] Failed to complete span with ${completion.status}:`,
+          err,
+        ),
+      );
+  }
+
   getTraceId(): string {
     return this.traceId;
   }
@@ -43,16 +205,18 @@ export default class TracingAPI implements TraceAPI {
   }
 
   async info(message: string, metadata?: Record<string, any>): Promise<void> {
-    await this.addLog("info", message, metadata);
+    await this.addLog(this.spanId, "info", message, metadata);
   }
   async warn(message: string, metadata?: Record<string, any>): Promise<void> {
-    await this.addLog("warn", message, metadata);
+    await this.addLog(this.spanId, "warn", message, metadata);
   }
   async error(message: string, metadata?: Record<string, any>): Promise<void> {
-    await this.addLog("error", message, metadata);
+    await this.addLog(this.spanId, "error", message, metadata);
   }
 
   async preserve(): Promise<void> {
+    if (this.buffer?.isDeferred) return this.buffer.setPreserve(true);
+
     await this.ctx
       .runMutation(this.component.lib.updateTracePreserve, {
         traceId: this.traceId,
@@ -62,6 +226,8 @@ export default class TracingAPI implements TraceAPI {
   }
 
   async discard(): Promise<void> {
+    if (this.buffer?.isDeferred) return this.buffer.setPreserve(false);
+
     await this.ctx
       .runMutation(this.component.lib.updateTracePreserve, {
         traceId: this.traceId,
@@ -71,6 +237,8 @@ export default class TracingAPI implements TraceAPI {
   }
 
   async sample(sampleRate?: number): Promise<void> {
+    if (this.buffer?.isDeferred) return this.buffer.setPreserve(undefined);
+
     await this.ctx
       .runMutation(this.component.lib.updateTracePreserve, {
         traceId: this.traceId,
@@ -82,6 +250,44 @@ export default class TracingAPI implements TraceAPI {
       );
   }
 
+  async flush(): Promise<void> {
+    await this.buffer?.flush();
+  }
+
+  /**
+   * Completes the function's span and writes everything still buffered in
+   * a single `finish` mutation, which also completes the trace when
+   * `status` is passed. Returns the ids of the trace and span, or undefined
+   * when a deferred trace is dropped.
+   */
+  async finish(
+    completion: BufferedCompletion,
+    options: FinishOptions = {},
+  ): Promise<{ traceId: string; spanId: string } | undefined> {
+    const ids = { traceId: this.traceId, spanId: completion.spanId };
+    const batch = this.buffer?.drain();
+
+    const start = this.buffer?.takeStart();
+    if (this.buffer?.isDeferred && !start) return undefined;
+
+    try {
+      const started = await this.ctx.runMutation(this.component.lib.finish, {
+        traceId: start ? undefined : this.traceId,
+        start,
+        ...batch,
+        completions: [
+          ...(batch?.completions ?? []),
+          this.redactCompletion(completion),
+        ],
+        ...options,
+      });
+      return started ?? ids;
+    } catch (err) {
+      console.error("[Tracer] Failed to finish span:", err);
+      return start ? undefined : ids;
+    }
+  }
+
   async withSpan<T>(
     spanName: string,
     fn: (span: SpanAPI) => Promise<T>,
@@ -89,70 +295,163 @@ export default class TracingAPI implements TraceAPI {
     return await this.createAndRunSpan(this.spanId, spanName, fn);
   }
 
+  /**
+   * Runs a call to another Convex function in a child span of the current
+   * span, named after the function.
+   */
+  async traceCall<T>(call: FunctionCall, run: () => Promise<T>): Promise<T> {
+    return await this.createAndRunSpan(this.spanId, call.spanName, run, call);
+  }
+
+  /**
+   * Records the span of a traced query or mutation that threw. The span it
+   * wrote itself was rolled back with the rest of its transaction.
+   */
+  async recordFailedCall(
+    { spanName, functionName }: Pick<FunctionCall, "spanName" | "functionName">,
+    startTime: number,
+    error: unknown,
+  ): Promise<void> {
+    try {
+      const spanId = await this.startSpan({
+        parentSpanId: this.spanId,
+        spanName,
+        startTime,
+        functionName,
+      });
+      await this.completeSpan({
+        spanId,
+        endTime: Date.now(),
+        duration: Date.now() - startTime,
+        status: "error",
+        error: error instanceof Error ? error.message : String(error),
+        exception: toException(error, false),
+      });
+    } catch (err) {
+      console.error("[Tracer] Failed to record failed call:", err);
+      return;
+    }
+
+    if (this.config.preserveErrors) {
+      await this.preserve();
+    }
+  }
+
   async updateMetadata(metadata: Record<string, any>): Promise<void> {
-    await this.ctx
-      .runMutation(this.component.lib.updateSpanMetadata, {
-        spanId: this.spanId,
-        metadata,
-      })
-      .catch((err) => console.error("[Tracer] Failed to set metadata:", err));
+    await this.setSpanMetadata(this.spanId, metadata);
+  }
+
+  async setTraceMetadata(metadata: Record<string, any>): Promise<void> {
+    await this.mergeTraceMetadata(metadata);
+  }
+
+  async tag(key: string, value: string | number | boolean): Promise<void> {
+    await this.addTag(key, value);
+  }
+
+  async recordException(error: unknown): Promise<void> {
+    await this.addException(this.spanId, error);
+  }
+
+  async fetch(
+    input: string | URL | Request,
+    init?: RequestInit,
+  ): Promise<Response> {
+    const request = new Request(input, init);
+    const url = new URL(request.url);
+    const startTime = Date.now();
+
+    let spanId: string;
+    try {
+      spanId = await this.startSpan({
+        parentSpanId: this.spanId,
+        spanName: `${request.method} ${url.origin}${url.pathname}`,
+        startTime,
+      });
+    } catch (err) {
+      console.error("[Tracer] Failed to create fetch span:", err);
+      return await fetch(request);
+    }
+
+    request.headers.set(
+      "traceparent",
+      formatTraceparent(
+        this.otlpTraceId,
+        toOtlpSpanId(spanId),
+        !this.buffer?.isDeferred,
+      ),
+    );
+    await this.setSpanMetadata(spanId, {
+      "http.request.method": request.method,
+      "url.full": redactQueryString(url),
+    });
+
+    let response: Response;
+    try {
+      response = await fetch(request);
+    } catch (error) {
+      await this.completeSpan({
+        spanId,
+        endTime: Date.now(),
+        duration: Date.now() - startTime,
+        status: "error",
+        error: error instanceof Error ? error.message : String(error),
+        exception: toException(error, false),
+      });
+
+      if (this.config.preserveErrors) {
+        await this.preserve();
+      }
+      throw error;
+    }
+
+    const contentLength = response.headers.get("content-length");
+    await this.setSpanMetadata(spanId, {
+      "http.response.status_code": response.status,
+      ...(contentLength !== null && {
+        "http.response.body.size": Number(contentLength),
+      }),
+    });
+
+    const failed = response.status >= 400;
+    await this.completeSpan({
+      spanId,
+      endTime: Date.now(),
+      duration: Date.now() - startTime,
+      status: failed ? "error" : "success",
+      error: failed
+        ? `${response.status} ${response.statusText}`.trim()
+        : undefined,
+    });
+
+    if (failed && this.config.preserveErrors) {
+      await this.preserve();
+    }
+    return response;
   }
 
   private createSpanAPI(spanId: string): SpanAPI {
     return {
       info: async (message: string, metadata?: Record<string, any>) => {
-        await this.ctx
-          .runMutation(this.component.lib.addLog, {
-            spanId,
-            log: { timestamp: Date.now(), severity: "info", message, metadata },
-          })
-          .catch((err) =>
-            console.error(
-              "[Tracer] Failed to add info log to child span:",
-              err,
-            ),
-          );
+        await this.addLog(spanId, "info", message, metadata);
       },
       warn: async (message: string, metadata?: Record<string, any>) => {
-        await this.ctx
-          .runMutation(this.component.lib.addLog, {
-            spanId,
-            log: { timestamp: Date.now(), severity: "warn", message, metadata },
-          })
-          .catch((err) =>
-            console.error(
-              "[Tracer] Failed to add warn log to child span:",
-              err,
-            ),
-          );
+        await this.addLog(spanId, "warn", message, metadata);
       },
       error: async (message: string, metadata?: Record<string, any>) => {
-        await this.ctx
-          .runMutation(this.component.lib.addLog, {
-            spanId,
-            log: {
-              timestamp: Date.now(),
-              severity: "error",
-              message,
-              metadata,
-            },
-          })
-          .catch((err) =>
-            console.error(
-              "[Tracer] Failed to add error log to child span:",
-              err,
-            ),
-          );
+        await this.addLog(spanId, "error", message, metadata);
       },
       updateMetadata: async (metadata: Record<string, any>) => {
-        await this.ctx
-          .runMutation(this.component.lib.updateSpanMetadata, {
-            spanId,
-            metadata,
-          })
-          .catch((err) =>
-            console.error("[Tracer] Failed to set child span metadata:", err),
-          );
+        await this.setSpanMetadata(spanId, metadata);
+      },
+      setTraceMetadata: async (metadata: Record<string, any>) => {
+        await this.mergeTraceMetadata(metadata);
+      },
+      tag: async (key: string, value: string | number | boolean) => {
+        await this.addTag(key, value);
+      },
+      recordException: async (error: unknown) => {
+        await this.addException(spanId, error);
       },
       withSpan: async <T>(
         spanName: string,
@@ -167,18 +466,16 @@ export default class TracingAPI implements TraceAPI {
     parentSpanId: string,
     spanName: string,
     fn: (span: SpanAPI) => Promise<T>,
+    call?: FunctionCall,
   ): Promise<T> {
     let childSpanId: string;
     try {
-      childSpanId = await this.ctx.runMutation(this.component.lib.createSpan, {
-        traceId: this.traceId,
-        span: {
-          parentSpanId,
-          spanName,
-          source: "backend",
-          startTime: Date.now(),
-          status: "pending",
-        },
+      childSpanId = await this.startSpan({
+        parentSpanId,
+        spanName,
+        startTime: Date.now(),
+        functionName: call?.functionName,
+        args: this.redact(call?.args),
       });
     } catch (err) {
       console.error("[Tracer] Failed to create child span:", err);
@@ -190,29 +487,29 @@ export default class TracingAPI implements TraceAPI {
 
     try {
       const result = await fn(spanAPI);
-      await this.ctx
-        .runMutation(this.component.lib.completeSpan, {
-          spanId: childSpanId,
-          endTime: Date.now(),
-          duration: Date.now() - startTime,
-          status: "success",
-        })
-        .catch((err) =>
-          console.error("[Tracer] Failed to complete span:", err),
-        );
+      const error = call?.errorOf?.(result);
+      await this.completeSpan({
+        spanId: childSpanId,
+        endTime: Date.now(),
+        duration: Date.now() - startTime,
+        status: error === undefined ? "success" : "error",
+        result: call?.logReturn ? result : undefined,
+        error,
+      });
+
+      if (error !== undefined && this.config.preserveErrors) {
+        await this.preserve();
+      }
       return result;
     } catch (error) {
-      await this.ctx
-        .runMutation(this.component.lib.completeSpan, {
-          spanId: childSpanId,
-          endTime: Date.now(),
-          duration: Date.now() - startTime,
-          status: "error",
-          error: error instanceof Error ? error.message : String(error),
-        })
-        .catch((err) =>
-          console.error("[Tracer] Failed to complete span with error:", err),
-        );
+      await this.completeSpan({
+        spanId: childSpanId,
+        endTime: Date.now(),
+        duration: Date.now() - startTime,
+        status: "error",
+        error: error instanceof Error ? error.message : String(error),
+        exception: toException(error, false),
+      });
 
       if (this.config.preserveErrors) {
         await this.preserve();
@@ -227,6 +524,9 @@ export default class TracingAPI implements TraceAPI {
       warn: async () => {},
       error: async () => {},
       updateMetadata: async () => {},
+      setTraceMetadata: async () => {},
+      tag: async () => {},
+      recordException: async () => {},
       withSpan: async <T>(): Promise<T> => {
         return undefined as any;
       },
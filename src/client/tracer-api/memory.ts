@@ -0,0 +1,230 @@
+import type {
+  Exception,
+  SpanSnapshot,
+  Tag,
+  TraceSnapshot,
+} from "../../component/types";
+import { toException } from "../exceptions";
+import type { Redactor } from "../redaction";
+import type { SamplingConfig } from "../types";
+import type { SpanAPI, TraceAPI } from "./types";
+
+type Severity = "info" | "warn" | "error";
+
+/**
+ * A tracer that records the whole trace in memory instead of writing it to
+ * the component, for functions that can't run mutations such as reactive
+ * traced queries. The recorded trace is returned by snapshot() and
+ * persisted later through the component's `importTrace` mutation.
+ */
+export default class MemoryTracingAPI implements TraceAPI {
+  private spans: SpanSnapshot[] = [];
+  private preserveFlag: boolean | undefined;
+  private sampleRate: number;
+  private metadata: Record<string, any> | undefined;
+  private tags: Tag[] = [];
+
+  constructor(
+    private config: SamplingConfig,
+    private redact: Redactor = (value) => value,
+  ) {
+    this.sampleRate = config.sampleRate;
+  }
+
+  private get rootSpan(): SpanSnapshot {
+    return this.spans[0];
+  }
+
+  /**
+   * Starts a span and returns its local id. The first span is the root.
+   */
+  startSpan(
+    span: Pick<SpanSnapshot, "spanName" | "functionName" | "args">,
+    parentId?: string,
+  ): string {
+    const now = Date.now();
+    const id = `local:${this.spans.length}`;
+
+    this.spans.push({
+      ...span,
+      args: this.redact(span.args),
+      id,
+      parentId,
+      startTime: now,
+      endTime: now,
+      duration: 0,
+      status: "success",
+      logs: [],
+    });
+    return id;
+  }
+
+  completeSpan(
+    id: string,
+    completion: Pick<SpanSnapshot, "status" | "result" | "error"> & {
+      exception?: Exception;
+    },
+  ): void {
+    const span = this.findSpan(id);
+    const now = Date.now();
+
+    Object.assign(span, {
+      status: completion.status,
+      result: this.redact(completion.result),
+      error: this.redact(completion.error),
+      endTime: now,
+      duration: now - span.startTime,
+    });
+    if (completion.exception) {
+      this.addException(id, completion.exception);
+    }
+  }
+
+  snapshot(): TraceSnapshot {
+    return {
+      sampleRate: this.sampleRate,
+      preserve: this.preserveFlag,
+      metadata: this.metadata,
+      tags: this.tags,
+      spans: this.spans,
+    };
+  }
+
+  private findSpan(id: string): SpanSnapshot {
+    const span = this.spans.find((span) => span.id === id);
+    if (!span) throw new Error(`Span not found: ${id}`);
+    return span;
+  }
+
+  private addLog(
+    spanId: string,
+    severity: Severity,
+    message: string,
+    metadata?: Record<string, any>,
+  ): void {
+    this.findSpan(spanId).logs.push({
+      timestamp: Date.now(),
+      severity,
+      message: this.redact(message),
+      metadata: this.redact(metadata),
+    });
+  }
+
+  private addException(spanId: string, exception: Exception): void {
+    const span = this.findSpan(spanId);
+    span.exceptions = [...(span.exceptions ?? []), this.redact(exception)];
+  }
+
+  private setSpanMetadata(spanId: string, metadata: Record<string, any>) {
+    const span = this.findSpan(spanId);
+    span.metadata = { ...span.metadata, ...this.redact(metadata) };
+  }
+
+  private mergeTraceMetadata(metadata: Record<string, any>) {
+    this.metadata = { ...this.metadata, ...this.redact(metadata) };
+  }
+
+  private addTag(key: string, value: Tag["value"]) {
+    this.tags.push({ key, value: this.redact(value) });
+  }
+
+  getTraceId(): string {
+    return "";
+  }
+
+  getSpanId(): string {
+    return this.rootSpan.id;
+  }
+
+  async info(message: string, metadata?: Record<string, any>): Promise<void> {
+    this.addLog(this.rootSpan.id, "info", message, metadata);
+  }
+  async warn(message: string, metadata?: Record<string, any>): Promise<void> {
+    this.addLog(this.rootSpan.id, "warn", message, metadata);
+  }
+  async error(message: string, metadata?: Record<string, any>): Promise<void> {
+    this.addLog(this.rootSpan.id, "error", message, metadata);
+  }
+
+  async preserve(): Promise<void> {
+    this.preserveFlag = true;
+  }
+
+  async discard(): Promise<void> {
+    this.preserveFlag = false;
+  }
+
+  async sample(sampleRate?: number): Promise<void> {
+    this.preserveFlag = undefined;
+    if (sampleRate) this.sampleRate = sampleRate;
+  }
+
+  async flush(): Promise<void> {}
+
+  async withSpan<T>(
+    spanName: string,
+    fn: (span: SpanAPI) => Promise<T>,
+  ): Promise<T> {
+    return await this.runSpan(this.rootSpan.id, spanName, fn);
+  }
+
+  async updateMetadata(metadata: Record<string, any>): Promise<void> {
+    this.setSpanMetadata(this.rootSpan.id, metadata);
+  }
+
+  async setTraceMetadata(metadata: Record<string, any>): Promise<void> {
+    this.mergeTraceMetadata(metadata);
+  }
+
+  async tag(key: string, value: Tag["value"]): Promise<void> {
+    this.addTag(key, value);
+  }
+
+  async recordException(error: unknown): Promise<void> {
+    this.addException(this.rootSpan.id, toException(error, true));
+  }
+
+  private createSpanAPI(spanId: string): SpanAPI {
+    return {
+      info: async (message, metadata) =>
+        this.addLog(spanId, "info", message, metadata),
+      warn: async (message, metadata) =>
+        this.addLog(spanId, "warn", message, metadata),
+      error: async (message, metadata) =>
+        this.addLog(spanId, "error", message, metadata),
+      updateMetadata: async (metadata) =>
+        this.setSpanMetadata(spanId, metadata),
+      setTraceMetadata: async (metadata) => this.mergeTraceMetadata(metadata),
+      tag: async (key, value) => this.addTag(key, value),
+      recordException: async (error) =>
+        this.addException(spanId, toException(error, true)),
+      withSpan: async (spanName, fn) =>
+        await this.runSpan(spanId, spanName, fn),
+    };
+  }
+
+  private async runSpan<T>(
+    parentId: string,
+    spanName: string,
+    fn: (span: SpanAPI) => Promise<T>,
+  ): Promise<T> {
+    const spanId = this.startSpan({ spanName }, parentId);
+
+    try {
+      const result = await fn(this.createSpanAPI(spanId));
+      this.completeSpan(spanId, { status: "success" });
+      return result;
+    } catch (error) {
+      this.completeSpan(spanId, {
+        status: "error",
+        error: error instanceof Error ? error.message : String(error),
+        exception: toException(error, false),
+      });
+
+      if (this.config.preserveErrors) {
+        await this.preserve();
+      }
+      throw error;
+    }
+  }
+}
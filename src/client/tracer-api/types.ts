@@ -48,6 +48,51 @@ export interface SpanAPI {
    */
   updateMetadata(metadata: Record<string, any>): Promise<void>;
 
+  /**
+   * Merges metadata into the current trace, from any span or traced function
+   * in it. Keys are merged one by one, so different spans can set different
+   * keys. Trace metadata is returned with listed traces, can filter
+   * `listTraces` and is matched by sampling rules.
+   * @param {Record<string, any>} metadata - The metadata to merge.
+   * @returns {Promise<void>}
+   * @example
+   * ```ts
+   * await ctx.tracer.setTraceMetadata({ plan: "enterprise" });
+   * ```
+   */
+  setTraceMetadata(metadata: Record<string, any>): Promise<void>;
+
+  /**
+   * Tags the current trace with a key and value it can be found by with
+   * `tracer.findTracesByTag()`. Unlike metadata, tags are indexed, and a key
+   * can be tagged with several values.
+   * @param {string} key - The tag key, e.g. "orderId".
+   * @param {string | number | boolean} value - The tag value.
+   * @returns {Promise<void>}
+   * @example
+   * ```ts
+   * await ctx.tracer.tag("orderId", orderId);
+   * ```
+   */
+  tag(key: string, value: string | number | boolean): Promise<void>;
+
+  /**
+   * Attaches a handled error to the current span without failing it,
+   * keeping its name, stack, cause chain and `ConvexError` data.
+   * @param {unknown} error - The error to record.
+   * @returns {Promise<void>}
+   * @example
+   * ```ts
+   * try {
+   *   await chargeCard(card);
+   * } catch (err) {
+   *   await span.recordException(err);
+   *   await chargeBackupCard(card);
+   * }
+   * ```
+   */
+  recordException(error: unknown): Promise<void>;
+
   /**
    * Creates a new span within the current trace.
    * @param {string} name - The name of the span.
@@ -99,6 +144,19 @@ export interface TraceAPI extends SpanAPI {
    */
   sample(sampleRate?: number): Promise<void>;
 
+  /**
+   * Writes all buffered logs, metadata and span completions immediately.
+   * Only has an effect when `bufferWrites` is enabled, otherwise every call
+   * is already persisted.
+   * @returns {Promise<void>}
+   * @example
+   * ```ts
+   * await ctx.tracer.info("About to call a slow API");
+   * await ctx.tracer.flush();
+   * ```
+   */
+  flush(): Promise<void>;
+
   /**
    * Creates a new span within the current trace.
    * @param {string} name - The name of the span.
@@ -125,6 +183,28 @@ export interface TraceAPI extends SpanAPI {
   getSpanId(): string;
 }
 
+export interface ActionTraceAPI extends TraceAPI {
+  /**
+   * Calls `fetch` inside a child span of the current span, recording the
+   * method, URL, status, response size and timing. Query string values are
+   * redacted from the recorded URL. Network failures and 4xx/5xx responses
+   * mark the span as an error.
+   * A W3C `traceparent` header is added so downstream services can join
+   * the trace.
+   * @param {string | URL | Request} input - The resource to fetch.
+   * @param {RequestInit} init - Optional request options.
+   * @returns {Promise<Response>} The response.
+   * @example
+   * ```ts
+   * const response = await ctx.tracer.fetch("https://api.stripe.com/v1/charges", {
+   *   method: "POST",
+   *   body,
+   * });
+   * ```
+   */
+  fetch(input: string | URL | Request, init?: RequestInit): Promise<Response>;
+}
+
 export interface TracerAPI {
   /**
    * Creates a new trace in the database.
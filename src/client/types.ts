@@ -1,5 +1,10 @@
 import type {
+  Auth,
   FunctionReference,
+  PaginationOptions,
+  PaginationResult,
+  RegisteredMutation,
+  RegisteredQuery,
   FunctionType,
   GenericActionCtx,
   GenericDatabaseReader,
@@ -9,13 +14,24 @@ import type {
   StorageReader,
 } from "convex/server";
 import type {
+  GenericId,
   ObjectType,
   OptionalProperty,
   PropertyValidators,
   Validator,
 } from "convex/values";
+import type { OtlpExportOptions } from "../component/otlp";
+import type {
+  CompleteTrace,
+  Exception,
+  ExporterConfig,
+  SamplingRule,
+  Tag,
+  Trace,
+  TraceSnapshot,
+} from "../component/types";
 import type { EmptyObject } from "../react/types";
-import type { TraceAPI } from "./tracer-api/types";
+import type { ActionTraceAPI, TraceAPI } from "./tracer-api/types";
 
 export type AnyFunctionReference = FunctionReference<any, any>;
 
@@ -35,16 +51,87 @@ export type ExtractOutput<T> = T extends (
   ? R
   : never;
 
-export interface TraceContext extends Required<TracerConfig> {
+export type SamplingConfig = Required<
+  Pick<TracerConfig, "sampleRate" | "preserveErrors" | "retentionMinutes">
+>;
+
+export interface TraceContext extends SamplingConfig {
   traceId: string; // Id<"traces"> from component
   spanId: string; // Id<"spans"> from component
+  scheduledAt?: number; // set when spanId is a scheduled span
+  sampled?: boolean; // set by head sampling, false when nothing is written
+  signature?: string; // HMAC of the other fields when a signing secret is set
+  otlpTraceId?: string; // set for an external W3C trace or an unsampled one
+  identity?: Omit<TraceIdentity, "extra">; // who the trace was started for
+}
+
+/**
+ * Who a trace is started for, as resolved by `TracerConfig.identify`.
+ * `extra` is stored on the trace as its `identity`.
+ */
+export interface TraceIdentity {
+  userId?: string;
+  tenantId?: string;
+  extra?: Record<string, any>;
 }
 
 export type ArgsWithTraceContext<Args> = Args & {
   __traceContext?: TraceContext;
 };
 
-export interface TracerConfig {
+export interface RedactionConfig {
+  /**
+   * Dot-separated key paths to redact in args, results, log metadata and
+   * span metadata. `*` matches any single key or array index and `**`
+   * matches any number of them.
+   * @example
+   * ```ts
+   * paths: ["user.email", "cards.*.number", "**.password"]
+   * ```
+   */
+  paths?: string[];
+
+  /**
+   * Patterns scrubbed from every string that is stored, including log
+   * messages and error messages.
+   * @example
+   * ```ts
+   * patterns: [/\b(?:\d[ -]?){13,16}\b/, /sk_live_\w+/]
+   * ```
+   */
+  patterns?: RegExp[];
+
+  /**
+   * What happens to values at a redacted path: "mask" replaces them with
+   * `replacement`, "hash" with a keyed HMAC-SHA256 so equal values can still
+   * be correlated, and "remove" drops the key.
+   * Hashed values are pseudonymous, not anonymous: anyone holding
+   * `hashSecret` can confirm a guessed value.
+   * @default - "mask"
+   */
+  mode?: "mask" | "hash" | "remove";
+
+  /**
+   * Key for the "hash" mode. Defaults to the Tracer's `signingSecret`; one of
+   * them must be set to use the "hash" mode.
+   */
+  hashSecret?: string;
+
+  /**
+   * @default - "[REDACTED]"
+   */
+  replacement?: string;
+}
+
+/**
+ * How a traced function reports its outcome: "envelope" returns a
+ * `TracedResult` and never throws, "throw" returns the handler's value and
+ * rethrows its error, rolling back a query or mutation together with the
+ * trace it started.
+ */
+export type ResultMode = "envelope" | "throw";
+
+export interface TracerConfig<Mode extends ResultMode = ResultMode> {
   /**
    * The sample rate for the trace.
    * This is used to determine whether to sample the trace or not.
@@ -66,6 +153,117 @@ export interface TracerConfig {
    * @default - 120
    */
   retentionMinutes?: number;
+
+  /**
+   * Whether to decide with `sampleRate` when a trace starts instead of once
+   * its retention window has passed. A trace that isn't sampled is recorded
+   * in memory only and written when it is preserved, by `preserveErrors` or
+   * `ctx.tracer.preserve()`, so most traced calls write nothing at all.
+   * Traced functions it calls follow the same decision. In an unsampled
+   * trace their spans are recorded by the caller, so a failure still
+   * preserves the trace through the caller's `preserveErrors`, but their
+   * own logs, metadata, tags and `preserve()` calls are dropped.
+   * Sampling rules can then only lower the rate of sampled traces, and
+   * function metrics count sampled traces 1/sampleRate times.
+   * @default - false
+   */
+  headSampling?: boolean;
+
+  /**
+   * Whether to buffer logs, metadata and child span completions in memory
+   * and write them in a single batched mutation when the traced function
+   * completes or errors, instead of one mutation per call.
+   * Use `ctx.tracer.flush()` to persist buffered writes early.
+   * @default - false
+   */
+  bufferWrites?: boolean;
+
+  /**
+   * Pushes every retained trace to an OTLP/HTTP collector once its root span
+   * completes. Deliveries are retried with exponential backoff and
+   * dead-lettered after `maxAttempts`.
+   * @default - undefined
+   * @example
+   * ```ts
+   * exporter: {
+   *   endpoint: "https://otel.example.com/v1/traces",
+   *   headers: { Authorization: `Bearer ${process.env.OTLP_TOKEN}` },
+   *   serviceName: "shop",
+   * }
+   * ```
+   */
+  exporter?: ExporterConfig;
+
+  /**
+   * Rules evaluated when a trace completes, matched by root function name,
+   * status, duration, userId, tenantId and metadata. The first matching rule's
+   * `sampleRate` replaces `sampleRate` for that trace.
+   * Sampling hashes the trace id, so a trace always gets the same decision.
+   * @default - []
+   * @example
+   * ```ts
+   * samplingRules: [
+   *   { functionName: "createOrder", sampleRate: 1 },
+   *   { minDuration: 2000, sampleRate: 1 },
+   *   { userId: ["load-tester"], sampleRate: 0 },
+   * ]
+   * ```
+   */
+  samplingRules?: SamplingRule[];
+
+  /**
+   * Redacts args, return values, logs and metadata before they are written
+   * to the tracer component.
+   * @default - undefined
+   */
+  redact?: RedactionConfig;
+
+  /**
+   * Resolves the user and tenant a trace is started for. Traced functions
+   * that join a trace, including scheduled ones, reuse the identity of the
+   * function that started it instead of resolving it again.
+   * @default - the user id before the first "|" of the identity's subject
+   * @example
+   * ```ts
+   * identify: async (ctx) => {
+   *   const identity = await ctx.auth.getUserIdentity();
+   *   return {
+   *     userId: identity?.subject,
+   *     tenantId: identity?.org_id as string | undefined,
+   *     extra: { email: identity?.email },
+   *   };
+   * },
+   * ```
+   */
+  identify?: (ctx: { auth: Auth }) => TraceIdentity | Promise<TraceIdentity>;
+
+  /**
+   * Secret for signing the trace context that traced functions and
+   * `startFrontendSpan` hand out, read from an environment variable such as
+   * `process.env.TRACER_SIGNING_SECRET`. A `__traceContext` with an invalid
+   * signature is rejected before any span is created, so clients can't
+   * attach spans to another trace or change its sampling.
+   * @default - undefined
+   */
+  signingSecret?: string;
+
+  /**
+   * What public traced functions do with a `__traceContext` that isn't
+   * signed when `signingSecret` is set: "ignore" starts a new trace and
+   * "reject" throws. Internal functions accept unsigned contexts.
+   * @default - "ignore"
+   */
+  unsignedContext?: "ignore" | "reject";
+
+  /**
+   * Whether traced functions return a `TracedResult` envelope or return
+   * their value and rethrow their error, so a failed mutation rolls back
+   * and `ConvexError` data reaches the caller.
+   * Pass the mode as the Tracer's second type parameter too, e.g.
+   * `new Tracer<DataModel, "throw">(...)`, so return types follow it.
+   * @default - "envelope"
+   */
+  resultMode?: Mode;
 }
 
 export type LogArgs<Args extends PropertyValidators> = IfArgs<
@@ -126,6 +324,31 @@ export interface TracedFunctionOptions<
    */
   preserveErrors?: boolean;
 
+  /** Whether to buffer logs, metadata and child span completions until the
+   * function completes.
+   * If undefined, the Tracer config will be used
+   * @default - undefined
+   */
+  bufferWrites?: boolean;
+
+  /** Whether to record every `ctx.db` read and write as a child span of the
+   * function's span, with the table, index, document count and timing.
+   * @default - false
+   */
+  instrumentDb?: boolean;
+
+  /** Redaction applied in addition to the Tracer config.
+   * Paths and patterns are added to the Tracer's, other options override it.
+   * @default - undefined
+   */
+  redact?: RedactionConfig;
+
+  /** Whether to return a `TracedResult` envelope or rethrow errors.
+   * If undefined, the Tracer config will be used
+   * @default - undefined
+   */
+  resultMode?: ResultMode;
+
   /**
    * A callback to run before the function starts.
    * @param {any} ctx - The context object.
@@ -192,15 +415,17 @@ export type TracedFunctionConfig<
   Args extends PropertyValidators,
   Handler extends TracerHandler<Ctx, Args>,
   Output extends ExtractOutput<Handler>,
+  Mode extends ResultMode = ResultMode,
 > = TracedFunctionOptions<Ctx, Args, Output> & {
   args?: Args;
   handler: Handler;
   returns?: Validator<Output, OptionalProperty, any>;
+  resultMode?: Mode;
 };
 
-export type TracerArgs<Args extends PropertyValidators> = ObjectType<
-  Args & { __traceContext?: TraceContext }
->;
+export type TracerArgs<Args extends PropertyValidators> = ObjectType<Args> & {
+  __traceContext?: TraceContext;
+};
 
 export type TracedFunctionTypes = Exclude<FunctionType, "query">;
 
@@ -211,6 +436,30 @@ export type TracedFunction<Type extends TracedFunctionTypes> = <
   args?: Omit<FuncRef["_args"], "__traceContext">,
 ) => Promise<FuncRef["_returnType"]>;
 
+/**
+ * Schedules a traced function to run in `delayMs` milliseconds, as a child
+ * of a "scheduled" span in the current trace.
+ */
+export type RunTracedAfter = <
+  FuncRef extends FunctionReference<"mutation" | "action", any, any, any>,
+>(
+  delayMs: number,
+  funcRef: FuncRef,
+  args?: Omit<FuncRef["_args"], "__traceContext">,
+) => Promise<GenericId<"_scheduled_functions">>;
+
+/**
+ * Schedules a traced function to run at `timestamp`, as a child of a
+ * "scheduled" span in the current trace.
+ */
+export type RunTracedAt = <
+  FuncRef extends FunctionReference<"mutation" | "action", any, any, any>,
+>(
+  timestamp: number | Date,
+  funcRef: FuncRef,
+  args?: Omit<FuncRef["_args"], "__traceContext">,
+) => Promise<GenericId<"_scheduled_functions">>;
+
 type RestrictedQueryContext<DataModel extends GenericDataModel> = Omit<
   GenericMutationCtx<DataModel>,
   "runMutation" | "scheduler" | "db" | "storage"
@@ -225,19 +474,32 @@ export type QueryCtxWithTracer<DataModel extends GenericDataModel> =
     runTracedQuery: TracedFunction<"mutation">;
   };
 
+/**
+ * The context of a reactive traced query: a regular query context whose
+ * tracer records the trace in memory.
+ */
+export type ReactiveQueryCtxWithTracer<DataModel extends GenericDataModel> =
+  GenericQueryCtx<DataModel> & {
+    tracer: TraceAPI;
+  };
+
 export type MutationCtxWithTracer<DataModel extends GenericDataModel> =
   GenericMutationCtx<DataModel> & {
     tracer: TraceAPI;
     runTracedQuery: TracedFunction<"mutation">;
     runTracedMutation: TracedFunction<"mutation">;
+    runTracedAfter: RunTracedAfter;
+    runTracedAt: RunTracedAt;
   };
 
 export type ActionCtxWithTracer<DataModel extends GenericDataModel> =
   GenericActionCtx<DataModel> & {
-    tracer: TraceAPI;
+    tracer: ActionTraceAPI;
     runTracedQuery: TracedFunction<"mutation">;
     runTracedMutation: TracedFunction<"mutation">;
     runTracedAction: TracedFunction<"action">;
+    runTracedAfter: RunTracedAfter;
+    runTracedAt: RunTracedAt;
   };
 
 export type TracedFunctionContext<DataModel extends GenericDataModel> =
@@ -252,6 +514,197 @@ export type GenericFunctionContext<DataModel extends GenericDataModel> =
   | GenericQueryCtx<DataModel>
   | StrippedGenericFunctionContext<DataModel>;
 
-export type TracedResult<Output> =
+type TracedOutcome<Output> =
   | { success: true; data: Output; error: undefined }
   | { success: false; data: undefined; error: string };
+
+/**
+ * `traceId` and `spanId` identify the trace and the function's span, e.g. to
+ * quote as a reference in a support ticket. The span is the trace's root
+ * span when the function started the trace. Both are undefined when the
+ * trace was dropped by head sampling.
+ */
+export type TracedResult<Output> = TracedOutcome<Output> & {
+  traceId?: string;
+  spanId?: string;
+};
+
+/**
+ * What a traced function returns in the given result mode.
+ */
+export type TracedReturn<Mode extends ResultMode, Output> = Mode extends "throw"
+  ? Output
+  : TracedResult<Output>;
+
+/**
+ * Arguments of the `startFrontendSpan` mutation created by `frontendApi()`.
+ * Without a `parent` a new trace is started for the browser interaction.
+ */
+export type FrontendSpanStart = {
+  name: string;
+  startTime: number;
+  parent?: TraceContext;
+};
+
+/**
+ * Arguments of the `finishFrontendSpan` mutation created by `frontendApi()`.
+ * `context` is the one `startFrontendSpan` returned for the span, signed
+ * when a signing secret is set. Logs and metadata recorded in the browser
+ * are written together with the span completion.
+ */
+export type FrontendSpanFinish = {
+  context: TraceContext;
+  endTime: number;
+  duration: number;
+  status: "success" | "error";
+  error?: string;
+  exception?: Exception;
+  logs?: Array<{
+    timestamp: number;
+    severity: "info" | "warn" | "error";
+    message: string;
+    metadata?: Record<string, any>;
+  }>;
+  metadata?: Record<string, any>;
+};
+
+/**
+ * The result of a reactive traced query. `trace` holds the trace recorded
+ * while the query ran, to be persisted by the `useTracedQuery` hook.
+ */
+export type ReactiveTracedResult<Output> = TracedOutcome<Output> & {
+  trace?: TraceSnapshot;
+};
+
+export interface OtlpHttpActionOptions extends OtlpExportOptions {
+  /**
+   * Decides whether the request may read traces, which include args, logs
+   * and user ids. Required, so the route is never open by accident; return
+   * false to respond with 401.
+   * @example
+   * ```ts
+   * authorize: (ctx, request) =>
+   *   !!process.env.OTLP_TOKEN &&
+   *   request.headers.get("Authorization") === `Bearer ${process.env.OTLP_TOKEN}`,
+   * ```
+   */
+  authorize: (
+    ctx: GenericActionCtx<GenericDataModel>,
+    request: Request,
+  ) => boolean | Promise<boolean>;
+
+  /**
+   * The maximum number of traces returned when no traceId is given.
+   * @default - 100
+   */
+  maxTraces?: number;
+}
+
+export type TraceApiOperation =
+  | "list"
+  | "search"
+  | "get"
+  | "preserve"
+  | "delete";
+
+export interface TraceApiOptions<DataModel extends GenericDataModel> {
+  /**
+   * Decides whether the caller may perform the operation, e.g. by checking
+   * a role on the user. Return false to throw "Unauthorized".
+   * @example
+   * ```ts
+   * authorize: async (ctx, operation) =>
+   *   (await ctx.auth.getUserIdentity()) !== null &&
+   *   (operation !== "delete" || (await isAdmin(ctx))),
+   * ```
+   */
+  authorize: (
+    ctx: GenericQueryCtx<DataModel>,
+    operation: TraceApiOperation,
+  ) => boolean | Promise<boolean>;
+
+  /**
+   * Whose traces callers can reach: "self" limits every operation to the
+   * traces of the user resolved by `identify` and rejects anonymous callers,
+   * "all" allows every trace.
+   * @default - "self"
+   */
+  scope?: "self" | "all";
+
+  /**
+   * The maximum number of traces a list, search or tag query returns, and
+   * the number returned when the caller gives no limit.
+   * @default - 100
+   */
+  maxTraces?: number;
+}
+
+type TraceApiFilters = {
+  status?: Trace["status"];
+  userId?: string;
+  tenantId?: string;
+  metadata?: Record<string, any>;
+};
+
+type TraceApiSearch = TraceApiFilters & { functionName: string };
+
+/**
+ * The public functions created by `tracer.api()`.
+ */
+export type TraceApi = {
+  listTraces: RegisteredQuery<
+    "public",
+    TraceApiFilters & { limit?: number },
+    Promise<Trace[]>
+  >;
+  listTracesPaginated: RegisteredQuery<
+    "public",
+    TraceApiFilters & { paginationOpts: PaginationOptions },
+    Promise<PaginationResult<Trace>>
+  >;
+  searchTraces: RegisteredQuery<
+    "public",
+    TraceApiSearch & { limit?: number },
+    Promise<Trace[]>
+  >;
+  searchTracesPaginated: RegisteredQuery<
+    "public",
+    TraceApiSearch & { paginationOpts: PaginationOptions },
+    Promise<PaginationResult<Trace>>
+  >;
+  findTracesByTag: RegisteredQuery<
+    "public",
+    { key: string; value: Tag["value"]; limit?: number },
+    Promise<Trace[]>
+  >;
+  getTrace: RegisteredQuery<
+    "public",
+    { traceId: string },
+    Promise<CompleteTrace | null>
+  >;
+  preserveTrace: RegisteredMutation<
+    "public",
+    { traceId: string },
+    Promise<null>
+  >;
+  deleteTrace: RegisteredMutation<"public", { traceId: string }, Promise<null>>;
+};
+
+export type TracedHttpActionConfig<DataModel extends GenericDataModel> = Pick<
+  TracedFunctionOptions<ActionCtxWithTracer<DataModel>, EmptyObject, Response>,
+  | "name"
+  | "sampleRate"
+  | "retentionMinutes"
+  | "preserveErrors"
+  | "bufferWrites"
+  | "redact"
+> & {
+  /**
+   * Handles the request. Responses with a 5xx status mark the trace as an
+   * error, as does throwing, which responds with a 500.
+   */
+  handler: (
+    ctx: ActionCtxWithTracer<DataModel>,
+    request: Request,
+  ) => Promise<Response>;
+};
@@ -8,7 +8,12 @@
  * @module
  */
 
+import type * as exporter from "../exporter.js";
 import type * as lib from "../lib.js";
+import type * as metrics from "../metrics.js";
+import type * as otlp from "../otlp.js";
+import type * as sampling from "../sampling.js";
+import type * as sketch from "../sketch.js";
 import type * as types from "../types.js";
 
 import type {
@@ -19,7 +24,12 @@ import type {
 import { anyApi, componentsGeneric } from "convex/server";
 
 const fullApi: ApiFromModules<{
+  exporter: typeof exporter;
   lib: typeof lib;
+  metrics: typeof metrics;
+  otlp: typeof otlp;
+  sampling: typeof sampling;
+  sketch: typeof sketch;
   types: typeof types;
 }> = anyApi as any;
 
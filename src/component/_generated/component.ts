@@ -23,6 +23,31 @@ import type { FunctionReference } from "convex/server";
  */
 export type ComponentApi<Name extends string | undefined = string | undefined> =
   {
+    exporter: {
+      listDeliveries: FunctionReference<
+        "query",
+        "internal",
+        { limit?: number; status?: "pending" | "dead" },
+        Array<{
+          _creationTime: number;
+          _id: string;
+          attempts: number;
+          endpoint: string;
+          lastError?: string;
+          nextAttemptAt?: number;
+          status: "pending" | "dead";
+          traceId: string;
+        }>,
+        Name
+      >;
+      retryDelivery: FunctionReference<
+        "mutation",
+        "internal",
+        { deliveryId: string },
+        null,
+        Name
+      >;
+    };
     lib: {
       addLog: FunctionReference<
         "mutation",
@@ -39,10 +64,17 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         string,
         Name
       >;
+      addTag: FunctionReference<
+        "mutation",
+        "internal",
+        { key: string; traceId: string; value: string | number | boolean },
+        null,
+        Name
+      >;
       cleanupTrace: FunctionReference<
         "mutation",
         "internal",
-        { traceId: string },
+        { retentionMs?: number; traceId: string },
         null,
         Name
       >;
@@ -53,6 +85,15 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
           duration: number;
           endTime: number;
           error?: string;
+          exception?: {
+            cause?: Array<{ message: string; name: string; stack?: string }>;
+            data?: any;
+            handled: boolean;
+            message: string;
+            name: string;
+            stack?: string;
+            timestamp: number;
+          };
           result?: any;
           spanId: string;
           status: "success" | "error";
@@ -91,6 +132,144 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         string,
         Name
       >;
+      deleteTrace: FunctionReference<
+        "mutation",
+        "internal",
+        { traceId: string },
+        null,
+        Name
+      >;
+      findTracesByTag: FunctionReference<
+        "query",
+        "internal",
+        {
+          key: string;
+          limit?: number;
+          userId?: string;
+          value: string | number | boolean;
+        },
+        Array<{
+          _creationTime: number;
+          _id: string;
+          duration?: number;
+          errorCount?: number;
+          functionName?: string;
+          headSampleRate?: number;
+          identity?: Record<string, any>;
+          logCount?: number;
+          metadata?: Record<string, any>;
+          preserve?: boolean;
+          sampleRate: number;
+          spanCount?: number;
+          status: "pending" | "success" | "error";
+          tenantId?: string;
+          updatedAt: number;
+          userId?: string;
+        }>,
+        Name
+      >;
+      finish: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          cleanupAfterMs?: number;
+          completions?: Array<{
+            duration: number;
+            endTime: number;
+            error?: string;
+            exception?: {
+              cause?: Array<{ message: string; name: string; stack?: string }>;
+              data?: any;
+              handled: boolean;
+              message: string;
+              name: string;
+              stack?: string;
+              timestamp: number;
+            };
+            result?: any;
+            spanId: string;
+            status: "success" | "error";
+          }>;
+          exceptions?: Array<{
+            exception: {
+              cause?: Array<{ message: string; name: string; stack?: string }>;
+              data?: any;
+              handled: boolean;
+              message: string;
+              name: string;
+              stack?: string;
+              timestamp: number;
+            };
+            spanId: string;
+          }>;
+          exporter?: {
+            backoffMs?: number;
+            endpoint: string;
+            headers?: Record<string, string>;
+            maxAttempts?: number;
+            serviceName?: string;
+          };
+          logs?: Array<{
+            log: {
+              message: string;
+              metadata?: Record<string, any>;
+              severity: "info" | "warn" | "error";
+              timestamp: number;
+            };
+            spanId: string;
+          }>;
+          samplingRules?: Array<{
+            functionName?: string | Array<string>;
+            maxDuration?: number;
+            metadata?: Record<string, any>;
+            minDuration?: number;
+            sampleRate: number;
+            status?: "success" | "error";
+            tenantId?: string | Array<string>;
+            userId?: string | Array<string>;
+          }>;
+          source?: "frontend" | "backend";
+          spanMetadata?: Array<{
+            metadata: Record<string, any>;
+            spanId: string;
+          }>;
+          start?: {
+            spans: Array<{
+              args?: any;
+              functionName?: string;
+              localId: string;
+              parentSpanId?: string;
+              source: "frontend" | "backend";
+              spanName: string;
+              startTime: number;
+            }>;
+            tags?: Array<{ key: string; value: string | number | boolean }>;
+            trace: {
+              headSampleRate?: number;
+              identity?: Record<string, any>;
+              metadata?: Record<string, any>;
+              preserve?: boolean;
+              sampleRate: number;
+              source: "frontend" | "backend";
+              tenantId?: string;
+              userId: "anonymous" | string;
+            };
+          };
+          status?: "success" | "error";
+          tags?: Array<{
+            key: string;
+            traceId: string;
+            value: string | number | boolean;
+          }>;
+          traceId?: string;
+          traceMetadata?: Array<{
+            metadata: Record<string, any>;
+            traceId: string;
+          }>;
+        },
+        null | { spanId: string; traceId: string },
+        Name
+      >;
       getTrace: FunctionReference<
         "query",
         "internal",
@@ -98,10 +277,16 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         null | {
           _creationTime: number;
           _id: string;
+          duration?: number;
+          errorCount?: number;
           functionName?: string;
+          headSampleRate?: number;
+          identity?: Record<string, any>;
+          logCount?: number;
           metadata?: Record<string, any>;
           preserve?: boolean;
           sampleRate: number;
+          spanCount?: number;
           spans: Array<{
             _creationTime: number;
             _id: string;
@@ -110,6 +295,15 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
             duration?: number;
             endTime?: number;
             error?: string;
+            exceptions?: Array<{
+              cause?: Array<{ message: string; name: string; stack?: string }>;
+              data?: any;
+              handled: boolean;
+              message: string;
+              name: string;
+              stack?: string;
+              timestamp: number;
+            }>;
             functionName?: string;
             logs?: Array<{
               _creationTime: number;
@@ -130,54 +324,295 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
             traceId: string;
           }>;
           status: "pending" | "success" | "error";
+          tenantId?: string;
+          updatedAt: number;
+          userId?: string;
+        },
+        Name
+      >;
+      getTraceSummary: FunctionReference<
+        "query",
+        "internal",
+        { traceId: string },
+        null | {
+          _creationTime: number;
+          _id: string;
+          duration?: number;
+          errorCount?: number;
+          functionName?: string;
+          headSampleRate?: number;
+          identity?: Record<string, any>;
+          logCount?: number;
+          metadata?: Record<string, any>;
+          preserve?: boolean;
+          sampleRate: number;
+          spanCount?: number;
+          status: "pending" | "success" | "error";
+          tenantId?: string;
           updatedAt: number;
           userId?: string;
         },
         Name
       >;
+      importTrace: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          identity?: Record<string, any>;
+          metrics?: boolean;
+          snapshot: {
+            metadata?: Record<string, any>;
+            preserve?: boolean;
+            sampleRate: number;
+            signature?: string;
+            spans: Array<{
+              args?: any;
+              duration: number;
+              endTime: number;
+              error?: string;
+              exceptions?: Array<{
+                cause?: Array<{
+                  message: string;
+                  name: string;
+                  stack?: string;
+                }>;
+                data?: any;
+                handled: boolean;
+                message: string;
+                name: string;
+                stack?: string;
+                timestamp: number;
+              }>;
+              functionName?: string;
+              id: string;
+              logs: Array<{
+                message: string;
+                metadata?: Record<string, any>;
+                severity: "info" | "warn" | "error";
+                timestamp: number;
+              }>;
+              metadata?: Record<string, any>;
+              parentId?: string;
+              result?: any;
+              spanName: string;
+              startTime: number;
+              status: "success" | "error";
+            }>;
+            tags?: Array<{ key: string; value: string | number | boolean }>;
+          };
+          tenantId?: string;
+          userId: string;
+        },
+        string,
+        Name
+      >;
       listTraces: FunctionReference<
         "query",
         "internal",
         {
           limit?: number;
+          metadata?: Record<string, any>;
           status?: "pending" | "success" | "error";
+          tenantId?: string;
           userId?: string;
         },
         Array<{
           _creationTime: number;
           _id: string;
+          duration?: number;
+          errorCount?: number;
           functionName?: string;
+          headSampleRate?: number;
+          identity?: Record<string, any>;
+          logCount?: number;
           metadata?: Record<string, any>;
           preserve?: boolean;
           sampleRate: number;
+          spanCount?: number;
           status: "pending" | "success" | "error";
+          tenantId?: string;
           updatedAt: number;
           userId?: string;
         }>,
         Name
       >;
+      listTracesPaginated: FunctionReference<
+        "query",
+        "internal",
+        {
+          metadata?: Record<string, any>;
+          paginationOpts: {
+            cursor: string | null;
+            endCursor?: string | null;
+            id?: number;
+            maximumBytesRead?: number;
+            maximumRowsRead?: number;
+            numItems: number;
+          };
+          status?: "pending" | "success" | "error";
+          tenantId?: string;
+          userId?: string;
+        },
+        {
+          continueCursor: string;
+          isDone: boolean;
+          page: Array<{
+            _creationTime: number;
+            _id: string;
+            duration?: number;
+            errorCount?: number;
+            functionName?: string;
+            headSampleRate?: number;
+            identity?: Record<string, any>;
+            logCount?: number;
+            metadata?: Record<string, any>;
+            preserve?: boolean;
+            sampleRate: number;
+            spanCount?: number;
+            status: "pending" | "success" | "error";
+            tenantId?: string;
+            updatedAt: number;
+            userId?: string;
+          }>;
+          pageStatus?: "SplitRecommended" | "SplitRequired" | null;
+          splitCursor?: string | null;
+        },
+        Name
+      >;
+      recordException: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          exception: {
+            cause?: Array<{ message: string; name: string; stack?: string }>;
+            data?: any;
+            handled: boolean;
+            message: string;
+            name: string;
+            stack?: string;
+            timestamp: number;
+          };
+          spanId: string;
+        },
+        null,
+        Name
+      >;
       searchTraces: FunctionReference<
         "query",
         "internal",
         {
           functionName: string;
           limit?: number;
+          metadata?: Record<string, any>;
           status?: "pending" | "success" | "error";
+          tenantId?: string;
           userId?: string;
         },
         Array<{
           _creationTime: number;
           _id: string;
+          duration?: number;
+          errorCount?: number;
           functionName?: string;
+          headSampleRate?: number;
+          identity?: Record<string, any>;
+          logCount?: number;
           metadata?: Record<string, any>;
           preserve?: boolean;
           sampleRate: number;
+          spanCount?: number;
           status: "pending" | "success" | "error";
+          tenantId?: string;
           updatedAt: number;
           userId?: string;
         }>,
         Name
       >;
+      searchTracesPaginated: FunctionReference<
+        "query",
+        "internal",
+        {
+          functionName: string;
+          metadata?: Record<string, any>;
+          paginationOpts: {
+            cursor: string | null;
+            endCursor?: string | null;
+            id?: number;
+            maximumBytesRead?: number;
+            maximumRowsRead?: number;
+            numItems: number;
+          };
+          status?: "pending" | "success" | "error";
+          tenantId?: string;
+          userId?: string;
+        },
+        {
+          continueCursor: string;
+          isDone: boolean;
+          page: Array<{
+            _creationTime: number;
+            _id: string;
+            duration?: number;
+            errorCount?: number;
+            functionName?: string;
+            headSampleRate?: number;
+            identity?: Record<string, any>;
+            logCount?: number;
+            metadata?: Record<string, any>;
+            preserve?: boolean;
+            sampleRate: number;
+            spanCount?: number;
+            status: "pending" | "success" | "error";
+            tenantId?: string;
+            updatedAt: number;
+            userId?: string;
+          }>;
+          pageStatus?: "SplitRecommended" | "SplitRequired" | null;
+          splitCursor?: string | null;
+        },
+        Name
+      >;
+      startSpan: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          parentSpanId: string;
+          scheduledAt?: number;
+          span: {
+            args?: any;
+            functionName?: string;
+            source: "frontend" | "backend";
+            spanName: string;
+            startTime: number;
+          };
+          traceId: string;
+        },
+        string,
+        Name
+      >;
+      startTrace: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          headSampleRate?: number;
+          identity?: Record<string, any>;
+          metadata?: Record<string, any>;
+          preserve?: boolean;
+          sampleRate: number;
+          source: "frontend" | "backend";
+          span: {
+            args?: any;
+            functionName?: string;
+            source: "frontend" | "backend";
+            spanName: string;
+            startTime: number;
+          };
+          tenantId?: string;
+          userId: "anonymous" | string;
+        },
+        { spanId: string; traceId: string },
+        Name
+      >;
       updateSpanMetadata: FunctionReference<
         "mutation",
         "internal",
@@ -202,7 +637,27 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
       updateTraceStatus: FunctionReference<
         "mutation",
         "internal",
-        { status: "pending" | "success" | "error"; traceId: string },
+        {
+          exporter?: {
+            backoffMs?: number;
+            endpoint: string;
+            headers?: Record<string, string>;
+            maxAttempts?: number;
+            serviceName?: string;
+          };
+          samplingRules?: Array<{
+            functionName?: string | Array<string>;
+            maxDuration?: number;
+            metadata?: Record<string, any>;
+            minDuration?: number;
+            sampleRate: number;
+            status?: "success" | "error";
+            tenantId?: string | Array<string>;
+            userId?: string | Array<string>;
+          }>;
+          status: "pending" | "success" | "error";
+          traceId: string;
+        },
         null,
         Name
       >;
@@ -220,5 +675,104 @@ export type ComponentApi<Name extends string | undefined = string | undefined> =
         boolean,
         Name
       >;
+      writeBatch: FunctionReference<
+        "mutation",
+        "internal",
+        {
+          completions?: Array<{
+            duration: number;
+            endTime: number;
+            error?: string;
+            exception?: {
+              cause?: Array<{ message: string; name: string; stack?: string }>;
+              data?: any;
+              handled: boolean;
+              message: string;
+              name: string;
+              stack?: string;
+              timestamp: number;
+            };
+            result?: any;
+            spanId: string;
+            status: "success" | "error";
+          }>;
+          exceptions?: Array<{
+            exception: {
+              cause?: Array<{ message: string; name: string; stack?: string }>;
+              data?: any;
+              handled: boolean;
+              message: string;
+              name: string;
+              stack?: string;
+              timestamp: number;
+            };
+            spanId: string;
+          }>;
+          logs?: Array<{
+            log: {
+              message: string;
+              metadata?: Record<string, any>;
+              severity: "info" | "warn" | "error";
+              timestamp: number;
+            };
+            spanId: string;
+          }>;
+          spanMetadata?: Array<{
+            metadata: Record<string, any>;
+            spanId: string;
+          }>;
+          tags?: Array<{
+            key: string;
+            traceId: string;
+            value: string | number | boolean;
+          }>;
+          traceMetadata?: Array<{
+            metadata: Record<string, any>;
+            traceId: string;
+          }>;
+        },
+        null,
+        Name
+      >;
+    };
+    metrics: {
+      getFunctionMetrics: FunctionReference<
+        "query",
+        "internal",
+        {
+          bucket?: "minute" | "hour";
+          from: number;
+          functionName: string;
+          to: number;
+        },
+        {
+          bucket: "minute" | "hour";
+          buckets: Array<{
+            avgDuration: number;
+            bucketStart: number;
+            count: number;
+            errorCount: number;
+            errorRate: number;
+            maxDuration: number;
+            minDuration: number;
+            p50?: number;
+            p95?: number;
+            p99?: number;
+          }>;
+          functionName: string;
+          total: {
+            avgDuration: number;
+            count: number;
+            errorCount: number;
+            errorRate: number;
+            maxDuration: number;
+            minDuration: number;
+            p50?: number;
+            p95?: number;
+            p99?: number;
+          };
+        },
+        Name
+      >;
     };
   };
@@ -0,0 +1,202 @@
+/// <reference types="vite/client" />
+import { createServer, type IncomingMessage, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import { api } from "./_generated/api.js";
+import { getBackoffDelay } from "./exporter.js";
+import { initConvexTest } from "./setup.test.js";
+
+type Collector = {
+  endpoint: string;
+  requests: Array<{ headers: IncomingMessage["headers"]; body: any }>;
+  respondWith: number;
+};
+
+function startCollector(): Promise<Collector & { server: Server }> {
+  const collector = { requests: [], respondWith: 200 } as unknown as Collector;
+
+  const server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      collector.requests.push({ headers: req.headers, body: JSON.parse(body) });
+      res.statusCode = collector.respondWith;
+      res.end();
+    });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as AddressInfo;
+      collector.endpoint = `http://127.0.0.1:${port}/v1/traces`;
+      resolve(Object.assign(collector, { server }));
+    });
+  });
+}
+
+async function completeTrace(
+  t: ReturnType<typeof initConvexTest>,
+  exporter: { endpoint: string; maxAttempts?: number; backoffMs?: number },
+) {
+  const traceId = await t.mutation(api.lib.createTrace, {
+    status: "pending",
+    sampleRate: 1,
+    source: "backend",
+    userId: "anonymous",
+  });
+  const spanId = await t.mutation(api.lib.createSpan, {
+    traceId,
+    span: {
+      spanName: "createOrder",
+      source: "backend",
+      startTime: 1000,
+      status: "pending",
+      functionName: "createOrder",
+    },
+  });
+  await t.mutation(api.lib.addLog, {
+    spanId,
+    log: { timestamp: 1001, severity: "info", message: "Order created" },
+  });
+  await t.mutation(api.lib.completeSpan, {
+    spanId,
+    endTime: 1010,
+    duration: 10,
+    status: "success",
+  });
+  await t.mutation(api.lib.updateTraceStatus, {
+    traceId,
+    status: "success",
+    exporter: { ...exporter, headers: { Authorization: "Bearer test" } },
+  });
+  return { traceId, spanId };
+}
+
+async function drainDeliveries(t: ReturnType<typeof initConvexTest>) {
+  for (let i = 0; i < 20; i++) {
+    const [pending] = await t.query(api.exporter.listDeliveries, {
+      status: "pending",
+    });
+    if (!pending) return;
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    await t.finishInProgressScheduledFunctions();
+  }
+}
+
+describe("exporter", () => {
+  let collector: Collector & { server: Server };
+
+  beforeEach(async () => {
+    collector = await startCollector();
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => collector.server.close(resolve));
+  });
+
+  test("delivers completed traces as OTLP/JSON", async () => {
+    const t = initConvexTest();
+    const { traceId } = await completeTrace(t, {
+      endpoint: collector.endpoint,
+    });
+
+    await drainDeliveries(t);
+
+    expect(collector.requests).toHaveLength(1);
+    const { headers, body } = collector.requests[0];
+    expect(headers.authorization).toBe("Bearer test");
+
+    const [resourceSpans] = body.resourceSpans;
+    expect(resourceSpans.resource.attributes).toContainEqual({
+      key: "convex.trace_id",
+      value: { stringValue: traceId },
+    });
+    const [span] = resourceSpans.scopeSpans[0].spans;
+    expect(span.name).toBe("createOrder");
+    expect(span.status).toEqual({ code: 1 });
+    expect(span.events[0].name).toBe("Order created");
+
+    // Delivered entries leave the outbox, and headers are stored once per
+    // endpoint rather than on each delivery
+    expect(await t.query(api.exporter.listDeliveries, {})).toHaveLength(0);
+    await t.run(async (ctx) => {
+      expect(await ctx.db.query("exporters").collect()).toMatchObject([
+        {
+          endpoint: collector.endpoint,
+          headers: { Authorization: "Bearer test" },
+        },
+      ]);
+    });
+  });
+
+  test("retries with backoff and dead-letters after maxAttempts", async () => {
+    collector.respondWith = 503;
+    const t = initConvexTest();
+    await completeTrace(t, {
+      endpoint: collector.endpoint,
+      maxAttempts: 3,
+      backoffMs: 1,
+    });
+
+    await drainDeliveries(t);
+
+    expect(collector.requests).toHaveLength(3);
+    const [delivery] = await t.query(api.exporter.listDeliveries, {
+      status: "dead",
+    });
+    expect(delivery).toMatchObject({ status: "dead", attempts: 3 });
+    expect(delivery.lastError).toContain("503");
+
+    collector.respondWith = 200;
+    await t.mutation(api.exporter.retryDelivery, {
+      deliveryId: delivery._id,
+    });
+    await drainDeliveries(t);
+
+    expect(collector.requests).toHaveLength(4);
+    expect(await t.query(api.exporter.listDeliveries, {})).toHaveLength(0);
+  });
+
+  test("removes deliveries with their trace", async () => {
+    collector.respondWith = 503;
+    const t = initConvexTest();
+    const { traceId } = await completeTrace(t, {
+      endpoint: collector.endpoint,
+      maxAttempts: 1,
+    });
+    await drainDeliveries(t);
+    expect(await t.query(api.exporter.listDeliveries, {})).toMatchObject([
+      { traceId, status: "dead", endpoint: collector.endpoint },
+    ]);
+
+    await t.mutation(api.lib.deleteTrace, { traceId });
+    expect(await t.query(api.exporter.listDeliveries, {})).toHaveLength(0);
+  });
+
+  test("skips traces that were discarded", async () => {
+    const t = initConvexTest();
+    const traceId = await t.mutation(api.lib.createTrace, {
+      status: "pending",
+      sampleRate: 1,
+      source: "backend",
+      userId: "anonymous",
+    });
+    await t.mutation(api.lib.updateTracePreserve, {
+      traceId,
+      preserve: false,
+    });
+    await t.mutation(api.lib.updateTraceStatus, {
+      traceId,
+      status: "success",
+      exporter: { endpoint: collector.endpoint },
+    });
+
+    expect(await t.query(api.exporter.listDeliveries, {})).toHaveLength(0);
+  });
+
+  test("backoff doubles per attempt", () => {
+    expect(getBackoffDelay(1000, 1)).toBe(1000);
+    expect(getBackoffDelay(1000, 2)).toBe(2000);
+    expect(getBackoffDelay(1000, 4)).toBe(8000);
+  });
+});
@@ -0,0 +1,267 @@
+/**
+ * Push-based forwarding of completed traces to an OTLP/HTTP collector.
+ * Deliveries are written to an outbox table and sent from a scheduled action,
+ * retrying with exponential backoff until they succeed and are removed, or
+ * are dead-lettered. The collector config, including its headers, is stored
+ * once per endpoint rather than on every delivery.
+ */
+import { v } from "convex/values";
+import { internal } from "./_generated/api.js";
+import type { Id } from "./_generated/dataModel.js";
+import {
+  internalAction,
+  internalMutation,
+  internalQuery,
+  mutation,
+  query,
+  type MutationCtx,
+} from "./_generated/server.js";
+import { getCompleteTrace } from "./lib.js";
+import { toOtlpExportRequest } from "./otlp.js";
+import { deliveryStatusValidator } from "./schema.js";
+import { vCompleteTrace, vDelivery, type ExporterConfig } from "./types.js";
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+
+/**
+ * Returns the delay before the next attempt, doubling after every failure.
+ */
+export function getBackoffDelay(backoffMs: number, attempts: number): number {
+  return Math.min(backoffMs * 2 ** Math.max(attempts - 1, 0), MAX_BACKOFF_MS);
+}
+
+/**
+ * Returns the stored config of the exporter's endpoint, updating it when the
+ * config changed, e.g. after a token was rotated.
+ */
+async function upsertExporter(
+  ctx: MutationCtx,
+  config: ExporterConfig,
+): Promise<Id<"exporters">> {
+  const exporter = {
+    endpoint: config.endpoint,
+    headers: config.headers,
+    serviceName: config.serviceName,
+    maxAttempts: config.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+    backoffMs: config.backoffMs ?? DEFAULT_BACKOFF_MS,
+  };
+
+  const existing = await ctx.db
+    .query("exporters")
+    .withIndex("by_endpoint", (q) => q.eq("endpoint", config.endpoint))
+    .unique();
+  if (!existing) return await ctx.db.insert("exporters", exporter);
+
+  const { _id, _creationTime, ...stored } = existing;
+  if (JSON.stringify(stored) !== JSON.stringify(exporter)) {
+    await ctx.db.replace("exporters", _id, exporter);
+  }
+  return _id;
+}
+
+/**
+ * Adds a trace to the outbox and schedules its first delivery attempt.
+ * Called when a root span completes and an exporter is configured.
+ */
+export async function enqueueDelivery(
+  ctx: MutationCtx,
+  traceId: Id<"traces">,
+  config: ExporterConfig,
+): Promise<Id<"deliveries">> {
+  const deliveryId = await ctx.db.insert("deliveries", {
+    traceId,
+    exporterId: await upsertExporter(ctx, config),
+    status: "pending",
+    attempts: 0,
+    nextAttemptAt: Date.now(),
+  });
+
+  await ctx.scheduler.runAfter(0, internal.exporter.deliver, { deliveryId });
+
+  return deliveryId;
+}
+
+// ============================================================================
+// Delivery
+// ============================================================================
+
+export const getDelivery = internalQuery({
+  args: { deliveryId: v.id("deliveries") },
+  returns: v.union(
+    v.null(),
+    v.object({
+      endpoint: v.string(),
+      headers: v.optional(v.record(v.string(), v.string())),
+      serviceName: v.optional(v.string()),
+      status: deliveryStatusValidator,
+      trace: v.union(v.null(), vCompleteTrace),
+    }),
+  ),
+  handler: async (ctx, { deliveryId }) => {
+    const delivery = await ctx.db.get("deliveries", deliveryId);
+    const exporter =
+      delivery && (await ctx.db.get("exporters", delivery.exporterId));
+    if (!delivery || !exporter) return null;
+
+    const trace = await getCompleteTrace(ctx, delivery.traceId);
+
+    return {
+      endpoint: exporter.endpoint,
+      headers: exporter.headers,
+      serviceName: exporter.serviceName,
+      status: delivery.status,
+      trace,
+    };
+  },
+});
+
+/**
+ * Sends a single outbox entry to its collector.
+ * Reschedules itself with exponential backoff on failure.
+ */
+export const deliver = internalAction({
+  args: { deliveryId: v.id("deliveries") },
+  returns: v.null(),
+  handler: async (ctx, { deliveryId }) => {
+    const delivery = await ctx.runQuery(internal.exporter.getDelivery, {
+      deliveryId,
+    });
+    if (!delivery || delivery.status !== "pending") return null;
+
+    if (!delivery.trace) {
+      await ctx.runMutation(internal.exporter.recordAttempt, {
+        deliveryId,
+        error: "Trace no longer exists",
+        retryable: false,
+      });
+      return null;
+    }
+
+    let error: string | undefined;
+    try {
+      const response = await fetch(delivery.endpoint, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...delivery.headers },
+        body: JSON.stringify(
+          toOtlpExportRequest([delivery.trace], {
+            serviceName: delivery.serviceName,
+          }),
+        ),
+      });
+
+      if (!response.ok) {
+        error = `Collector responded with ${response.status}: ${await response.text()}`;
+      }
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+    }
+
+    await ctx.runMutation(internal.exporter.recordAttempt, {
+      deliveryId,
+      error,
+      retryable: true,
+    });
+    return null;
+  },
+});
+
+export const recordAttempt = internalMutation({
+  args: {
+    deliveryId: v.id("deliveries"),
+    error: v.optional(v.string()),
+    retryable: v.boolean(),
+  },
+  returns: v.null(),
+  handler: async (ctx, { deliveryId, error, retryable }) => {
+    const delivery = await ctx.db.get("deliveries", deliveryId);
+    if (!delivery) return null;
+
+    // Delivered entries leave the outbox
+    if (error === undefined) {
+      await ctx.db.delete("deliveries", deliveryId);
+      return null;
+    }
+
+    const exporter = await ctx.db.get("exporters", delivery.exporterId);
+    const maxAttempts = exporter?.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+    const backoffMs = exporter?.backoffMs ?? DEFAULT_BACKOFF_MS;
+    const attempts = delivery.attempts + 1;
+
+    if (!retryable || attempts >= maxAttempts) {
+      await ctx.db.patch("deliveries", deliveryId, {
+        status: "dead",
+        attempts,
+        nextAttemptAt: undefined,
+        lastError: error,
+      });
+      return null;
+    }
+
+    const delay = getBackoffDelay(backoffMs, attempts);
+    await ctx.db.patch("deliveries", deliveryId, {
+      attempts,
+      nextAttemptAt: Date.now() + delay,
+      lastError: error,
+    });
+    await ctx.scheduler.runAfter(delay, internal.exporter.deliver, {
+      deliveryId,
+    });
+    return null;
+  },
+});
+
+// ============================================================================
+// Outbox Inspection
+// ============================================================================
+
+/**
+ * Lists outbox entries that are pending or dead, most recent first.
+ * Use `status: "dead"` to inspect deliveries that exhausted their retries.
+ */
+export const listDeliveries = query({
+  args: {
+    status: v.optional(deliveryStatusValidator),
+    limit: v.optional(v.number()),
+  },
+  returns: v.array(vDelivery),
+  handler: async (ctx, { status, limit }) => {
+    const q = status
+      ? ctx.db
+          .query("deliveries")
+          .withIndex("by_status", (q) => q.eq("status", status))
+          .order("desc")
+      : ctx.db.query("deliveries").order("desc");
+
+    const deliveries = limit ? await q.take(limit) : await q.collect();
+    return await Promise.all(
+      deliveries.map(async ({ exporterId, ...delivery }) => ({
+        ...delivery,
+        endpoint: (await ctx.db.get("exporters", exporterId))?.endpoint ?? "",
+      })),
+    );
+  },
+});
+
+/**
+ * Moves a dead-lettered delivery back to pending and retries it immediately.
+ */
+export const retryDelivery = mutation({
+  args: { deliveryId: v.string() },
+  returns: v.null(),
+  handler: async (ctx, args) => {
+    const deliveryId = args.deliveryId as Id<"deliveries">;
+    const delivery = await ctx.db.get("deliveries", deliveryId);
+    if (!delivery) throw new Error(`Delivery not found: ${args.deliveryId}`);
+    if (delivery.status !== "dead") return null;
+
+    await ctx.db.patch("deliveries", deliveryId, {
+      status: "pending",
+      attempts: 0,
+      nextAttemptAt: Date.now(),
+    });
+    await ctx.scheduler.runAfter(0, internal.exporter.deliver, { deliveryId });
+    return null;
+  },
+});
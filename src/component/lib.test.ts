@@ -0,0 +1,451 @@
+/// <reference types="vite/client" />
+import { afterEach, describe, expect, test, vi } from "vitest";
+import { api } from "./_generated/api.js";
+import { initConvexTest } from "./setup.test.js";
+
+async function createPendingSpan(t: ReturnType<typeof initConvexTest>) {
+  const traceId = await t.mutation(api.lib.createTrace, {
+    status: "pending",
+    sampleRate: 1,
+    source: "backend",
+    userId: "anonymous",
+  });
+  const spanId = await t.mutation(api.lib.createSpan, {
+    traceId,
+    span: {
+      spanName: "checkout",
+      source: "backend",
+      startTime: 1000,
+      status: "pending",
+    },
+  });
+  await t.mutation(api.lib.updateSpanMetadata, {
+    spanId,
+    metadata: { region: "eu" },
+  });
+  return { traceId, spanId };
+}
+
+describe("writeBatch", () => {
+  test("applies metadata, logs and completions in one mutation", async () => {
+    const t = initConvexTest();
+    const { traceId, spanId } = await createPendingSpan(t);
+
+    await t.mutation(api.lib.writeBatch, {
+      spanMetadata: [{ spanId, metadata: { cartSize: 3 } }],
+      logs: [
+        { spanId, log: { timestamp: 1001, severity: "info", message: "a" } },
+        { spanId, log: { timestamp: 1002, severity: "warn", message: "b" } },
+      ],
+      completions: [{ spanId, endTime: 1010, duration: 10, status: "success" }],
+    });
+
+    const trace = await t.query(api.lib.getTrace, { traceId });
+    const [span] = trace!.spans;
+    expect(span.status).toBe("success");
+    expect(span.duration).toBe(10);
+    expect(span.metadata).toEqual({ region: "eu", cartSize: 3 });
+    expect(span.logs?.map((log) => log.message)).toEqual(["a", "b"]);
+  });
+
+  test("merges trace metadata that listTraces can filter by", async () => {
+    const t = initConvexTest();
+    const { traceId } = await createPendingSpan(t);
+    await createPendingSpan(t);
+
+    await t.mutation(api.lib.updateTraceMetadata, {
+      traceId,
+      metadata: { plan: "enterprise", region: "eu" },
+    });
+    await t.mutation(api.lib.writeBatch, {
+      traceMetadata: [{ traceId, metadata: { orderId: "order1" } }],
+    });
+
+    const traces = await t.query(api.lib.listTraces, {
+      metadata: { plan: "enterprise", orderId: "order1" },
+    });
+    expect(traces.map((trace) => trace._id)).toEqual([traceId]);
+    expect(traces[0].metadata).toEqual({
+      plan: "enterprise",
+      region: "eu",
+      orderId: "order1",
+    });
+    await expect(
+      t.query(api.lib.listTraces, { metadata: { plan: "free" } }),
+    ).resolves.toEqual([]);
+  });
+});
+
+describe("startSpan", () => {
+  test("rejects ids that don't belong to an existing trace", async () => {
+    const t = initConvexTest();
+    const { traceId, spanId } = await createPendingSpan(t);
+    const other = await createPendingSpan(t);
+    const span = {
+      spanName: "child",
+      source: "backend" as const,
+      startTime: 1001,
+    };
+
+    await expect(
+      t.mutation(api.lib.startSpan, {
+        traceId: "not-a-trace",
+        parentSpanId: spanId,
+        span,
+      }),
+    ).rejects.toThrow("Cannot pass a traceId for a trace that doesn't exist");
+    await expect(
+      t.mutation(api.lib.startSpan, {
+        traceId,
+        parentSpanId: other.spanId,
+        span,
+      }),
+    ).rejects.toThrow("Cannot pass a spanId for a span that doesn't exist");
+  });
+
+  test("completes the scheduled span it starts under", async () => {
+    const t = initConvexTest();
+    const { traceId, spanId } = await createPendingSpan(t);
+
+    await t.mutation(api.lib.startSpan, {
+      traceId,
+      parentSpanId: spanId,
+      scheduledAt: 1000,
+      span: { spanName: "sendEmail", source: "backend", startTime: 1500 },
+    });
+
+    const trace = await t.query(api.lib.getTrace, { traceId });
+    expect(trace!.spans[0]).toMatchObject({ status: "success", duration: 500 });
+    expect(trace!.spans[0].children![0]).toMatchObject({
+      spanName: "sendEmail",
+      status: "pending",
+    });
+  });
+});
+
+describe("finish", () => {
+  test("creates a deferred trace and resolves its local span ids", async () => {
+    const t = initConvexTest();
+
+    const ids = await t.mutation(api.lib.finish, {
+      start: {
+        trace: { sampleRate: 0.1, source: "backend", userId: "anonymous" },
+        spans: [
+          {
+            localId: "local:0",
+            spanName: "checkout",
+            source: "backend",
+            startTime: 1000,
+          },
+          {
+            localId: "local:1",
+            parentSpanId: "local:0",
+            spanName: "chargeCard",
+            source: "backend",
+            startTime: 1001,
+          },
+        ],
+      },
+      logs: [
+        {
+          spanId: "local:1",
+          log: { timestamp: 1002, severity: "error", message: "declined" },
+        },
+      ],
+      completions: [
+        { spanId: "local:1", endTime: 1003, duration: 2, status: "error" },
+        { spanId: "local:0", endTime: 1010, duration: 10, status: "error" },
+      ],
+      status: "error",
+    });
+
+    const trace = await t.query(api.lib.getTrace, { traceId: ids!.traceId });
+    expect(trace).toMatchObject({
+      status: "error",
+      spanCount: 2,
+      errorCount: 2,
+      duration: 10,
+    });
+    const [root] = trace!.spans;
+    expect(root._id).toBe(ids!.spanId);
+    expect(root.children![0]).toMatchObject({
+      spanName: "chargeCard",
+      logs: [{ message: "declined" }],
+    });
+  });
+});
+
+describe("trace summary", () => {
+  test("tracks root function, duration and counts as spans complete", async () => {
+    const t = initConvexTest();
+    const { traceId, spanId } = await createPendingSpan(t);
+    const childId = await t.mutation(api.lib.createSpan, {
+      traceId,
+      span: {
+        parentSpanId: spanId,
+        spanName: "chargeCard",
+        source: "backend",
+        startTime: 1001,
+        status: "pending",
+      },
+    });
+
+    await t.mutation(api.lib.addLog, {
+      spanId: childId,
+      log: { timestamp: 1002, severity: "error", message: "declined" },
+    });
+    await t.mutation(api.lib.writeBatch, {
+      completions: [
+        { spanId: childId, endTime: 1003, duration: 2, status: "error" },
+        { spanId, endTime: 1010, duration: 10, status: "error" },
+      ],
+    });
+
+    const [trace] = await t.query(api.lib.listTraces, {});
+    expect(trace).toMatchObject({
+      functionName: "checkout",
+      duration: 10,
+      spanCount: 2,
+      logCount: 1,
+      errorCount: 2,
+    });
+
+    const found = await t.query(api.lib.searchTraces, {
+      functionName: "checkout",
+    });
+    expect(found.map((trace) => trace._id)).toEqual([traceId]);
+  });
+});
+
+describe("tenant filters", () => {
+  test("lists and searches the traces of one tenant", async () => {
+    const t = initConvexTest();
+    const startTrace = (tenantId: string, spanName: string) =>
+      t.mutation(api.lib.startTrace, {
+        sampleRate: 1,
+        source: "backend",
+        userId: "user1",
+        tenantId,
+        identity: { plan: "pro" },
+        span: {
+          spanName,
+          functionName: spanName,
+          source: "backend",
+          startTime: 1000,
+        },
+      });
+    const acme = await startTrace("acme", "checkout");
+    await startTrace("globex", "checkout");
+
+    const listed = await t.query(api.lib.listTraces, { tenantId: "acme" });
+    expect(listed).toHaveLength(1);
+    expect(listed[0]).toMatchObject({
+      _id: acme.traceId,
+      tenantId: "acme",
+      identity: { plan: "pro" },
+    });
+    expect(
+      await t.query(api.lib.listTraces, {
+        tenantId: "acme",
+        status: "success",
+      }),
+    ).toEqual([]);
+
+    const found = await t.query(api.lib.searchTraces, {
+      functionName: "checkout",
+      tenantId: "globex",
+    });
+    expect(found.map((trace) => trace.tenantId)).toEqual(["globex"]);
+  });
+});
+
+describe("tags", () => {
+  test("finds traces by tag until they are deleted", async () => {
+    const t = initConvexTest();
+    const { traceId } = await createPendingSpan(t);
+    const other = await createPendingSpan(t);
+
+    await t.mutation(api.lib.addTag, { traceId, key: "orderId", value: "o1" });
+    await t.mutation(api.lib.writeBatch, {
+      tags: [
+        { traceId, key: "orderId", value: "o1" },
+        { traceId, key: "orderId", value: "o2" },
+        { traceId: other.traceId, key: "orderId", value: "o2" },
+      ],
+    });
+
+    const byOrder = (value: string) =>
+      t.query(api.lib.findTracesByTag, { key: "orderId", value });
+    expect((await byOrder("o1")).map((trace) => trace._id)).toEqual([traceId]);
+    expect((await byOrder("o2")).map((trace) => trace._id)).toEqual([
+      other.traceId,
+      traceId,
+    ]);
+    await expect(
+      t.query(api.lib.findTracesByTag, {
+        key: "orderId",
+        value: "o2",
+        limit: 1,
+      }),
+    ).resolves.toHaveLength(1);
+
+    await t.mutation(api.lib.deleteTrace, { traceId });
+    await expect(byOrder("o1")).resolves.toEqual([]);
+    const tags = await t.run(
+      async (ctx) => await ctx.db.query("tags").collect(),
+    );
+    expect(tags).toHaveLength(1);
+  });
+
+  test("filters tagged traces by user before the limit", async () => {
+    const t = initConvexTest();
+    const mine = await t.mutation(api.lib.createTrace, {
+      status: "pending",
+      sampleRate: 1,
+      source: "backend",
+      userId: "user1",
+    });
+    const { traceId } = await createPendingSpan(t);
+    await t.mutation(api.lib.writeBatch, {
+      tags: [
+        { traceId: mine, key: "orderId", value: "o1" },
+        { traceId, key: "orderId", value: "o1" },
+      ],
+    });
+
+    const found = await t.query(api.lib.findTracesByTag, {
+      key: "orderId",
+      value: "o1",
+      userId: "user1",
+      limit: 1,
+    });
+    expect(found.map((trace) => trace._id)).toEqual([mine]);
+  });
+
+  test("returns 100 tagged traces unless given a limit", async () => {
+    const t = initConvexTest();
+    await t.run(async (ctx) => {
+      for (let i = 0; i < 101; i++) {
+        const traceId = await ctx.db.insert("traces", {
+          status: "pending",
+          sampleRate: 1,
+          updatedAt: Date.now(),
+        });
+        await ctx.db.insert("tags", { traceId, key: "sku", value: "LAMP-1" });
+      }
+    });
+
+    const bySku = (limit?: number) =>
+      t.query(api.lib.findTracesByTag, { key: "sku", value: "LAMP-1", limit });
+    await expect(bySku()).resolves.toHaveLength(100);
+    await expect(bySku(101)).resolves.toHaveLength(101);
+  });
+});
+
+describe("cleanupTrace", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  async function createScheduledSpan(t: ReturnType<typeof initConvexTest>) {
+    const { traceId, spanId } = await createPendingSpan(t);
+    await t.mutation(api.lib.updateTracePreserve, {
+      traceId,
+      preserve: false,
+    });
+    const scheduledId = await t.mutation(api.lib.createSpan, {
+      traceId,
+      span: {
+        parentSpanId: spanId,
+        spanName: "scheduled sendReminder",
+        source: "backend",
+        startTime: Date.now(),
+        status: "pending",
+      },
+    });
+    await t.mutation(api.lib.updateSpanMetadata, {
+      spanId: scheduledId,
+      metadata: { delayMs: 60_000, scheduledFor: Date.now() + 60_000 },
+    });
+    return { traceId, scheduledId };
+  }
+
+  test("keeps traces that are waiting on a scheduled function", async () => {
+    vi.useFakeTimers();
+    const t = initConvexTest();
+    const { traceId, scheduledId } = await createScheduledSpan(t);
+
+    await t.mutation(api.lib.cleanupTrace, { traceId, retentionMs: 1000 });
+    expect(await t.query(api.lib.verifyTrace, { traceId })).toBe(true);
+
+    await t.mutation(api.lib.completeSpan, {
+      spanId: scheduledId,
+      endTime: Date.now(),
+      duration: 60_000,
+      status: "success",
+    });
+    await t.mutation(api.lib.cleanupTrace, { traceId });
+    expect(await t.query(api.lib.verifyTrace, { traceId })).toBe(false);
+  });
+
+  test("stops waiting on a scheduled function that never started", async () => {
+    vi.useFakeTimers();
+    const t = initConvexTest();
+    const { traceId } = await createScheduledSpan(t);
+
+    await t.mutation(api.lib.cleanupTrace, { traceId, retentionMs: 1000 });
+    expect(await t.query(api.lib.verifyTrace, { traceId })).toBe(true);
+
+    // The scheduled span stays pending, so the cleanup it was put off to
+    // removes the trace a retention window after the function was due
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+    expect(await t.query(api.lib.verifyTrace, { traceId })).toBe(false);
+  });
+});
+
+describe("exceptions", () => {
+  test("keeps handled and failing exceptions on the span", async () => {
+    const t = initConvexTest();
+    const { traceId, spanId } = await createPendingSpan(t);
+
+    await t.mutation(api.lib.recordException, {
+      spanId,
+      exception: {
+        name: "TypeError",
+        message: "card declined",
+        timestamp: 1001,
+        handled: true,
+      },
+    });
+    await t.mutation(api.lib.writeBatch, {
+      completions: [
+        {
+          spanId,
+          endTime: 1010,
+          duration: 10,
+          status: "error",
+          error: "out of stock",
+          exception: {
+            name: "ConvexError",
+            message: "out of stock",
+            data: { code: "OUT_OF_STOCK" },
+            cause: [{ name: "Error", message: "inventory locked" }],
+            timestamp: 1009,
+            handled: false,
+          },
+        },
+      ],
+    });
+
+    const trace = await t.query(api.lib.getTrace, { traceId });
+    expect(trace!.spans[0].exceptions).toMatchObject([
+      { name: "TypeError", handled: true },
+      {
+        name: "ConvexError",
+        data: { code: "OUT_OF_STOCK" },
+        cause: [{ message: "inventory locked" }],
+        handled: false,
+      },
+    ]);
+  });
+});
@@ -2,15 +2,50 @@
  * Internal mutations for managing traces, spans, and logs.
  * These are called automatically by the tracing system to persist data immediately.
  */
-import { v } from "convex/values";
-import type { Id } from "./_generated/dataModel.js";
-import { mutation, query, type MutationCtx } from "./_generated/server.js";
 import {
+  paginationOptsValidator,
+  paginationResultValidator,
+  type OrderedQuery,
+  type WithoutSystemFields,
+} from "convex/server";
+import { v, type Infer, type ObjectType } from "convex/values";
+import { api } from "./_generated/api.js";
+import type { DataModel, Doc, Id } from "./_generated/dataModel.js";
+import { enqueueDelivery } from "./exporter.js";
+import { scheduleSpanMetrics, type SpanSample } from "./metrics.js";
+import { isSampled, resolveSampleRate } from "./sampling.js";
+import {
+  mutation,
+  query,
+  type MutationCtx,
+  type QueryCtx,
+} from "./_generated/server.js";
+import {
+  exceptionValidator,
   severityValidator,
   sourceValidator,
   statusValidator,
+  tagValueValidator,
 } from "./schema.js";
-import { vCompleteTrace, vTrace } from "./types.js";
+import {
+  vCompleteTrace,
+  vExporterConfig,
+  vSamplingRule,
+  vTag,
+  vTrace,
+  vTraceSnapshot,
+  type CompleteTrace,
+  type ExporterConfig,
+  type SamplingRule,
+} from "./types.js";
+
+// How long cleanupTrace waits past a scheduled function when it wasn't told
+// the trace's retention, the client's default of 120 minutes
+const DEFAULT_RETENTION_MS = 120 * 60 * 1000;
+
+// How many traces findTracesByTag returns without a limit, and at most
+const DEFAULT_TAG_LIMIT = 100;
+const MAX_TAG_LIMIT = 1000;
 
 // ============================================================================
 // Trace Operations
@@ -30,34 +65,128 @@ export const createTrace = mutation({
   },
   returns: v.id("traces"),
   handler: async (ctx, args): Promise<Id<"traces">> => {
-    return await ctx.db.insert("traces", {
-      status: args.status,
-      sampleRate: args.sampleRate,
-      updatedAt: Date.now(),
-      metadata: args.metadata,
-      userId: args.userId,
-    });
+    return await insertTrace(ctx, args);
   },
 });
 
+const vTraceStart = {
+  sampleRate: v.number(),
+  headSampleRate: v.optional(v.number()),
+  preserve: v.optional(v.boolean()),
+  metadata: v.optional(v.record(v.string(), v.any())),
+  source: sourceValidator,
+  userId: v.union(v.literal("anonymous"), v.string()),
+  tenantId: v.optional(v.string()),
+  identity: v.optional(v.record(v.string(), v.any())),
+};
+
+async function insertTrace(
+  ctx: MutationCtx,
+  trace: ObjectType<typeof vTraceStart> & {
+    status: Infer<typeof statusValidator>;
+  },
+): Promise<Id<"traces">> {
+  return await ctx.db.insert("traces", {
+    status: trace.status,
+    sampleRate: trace.sampleRate,
+    headSampleRate: trace.headSampleRate,
+    preserve: trace.preserve,
+    updatedAt: Date.now(),
+    metadata: trace.metadata,
+    userId: trace.userId,
+    tenantId: trace.tenantId,
+    identity: trace.identity,
+    spanCount: 0,
+    logCount: 0,
+    errorCount: 0,
+  });
+}
+
 /**
  * Updates the status of an existing trace.
  * Called when a root traced function completes or errors.
+ * Sampling rules are evaluated once the trace completes and the matching
+ * rule's rate replaces the trace's sample rate.
+ * When an exporter is passed, completed traces that will be retained are
+ * queued for delivery to the collector.
  */
 export const updateTraceStatus = mutation({
   args: {
     traceId: v.string(),
     status: statusValidator,
+    exporter: v.optional(vExporterConfig),
+    samplingRules: v.optional(v.array(vSamplingRule)),
   },
   returns: v.null(),
   handler: async (ctx, args): Promise<void> => {
-    await ctx.db.patch("traces", args.traceId as Id<"traces">, {
-      status: args.status,
-      updatedAt: Date.now(),
-    });
+    const traceId = args.traceId as Id<"traces">;
+
+    if (args.status === "pending") {
+      const trace = await ctx.db.get("traces", traceId);
+      if (!trace) throw new Error(`Trace not found: ${args.traceId}`);
+
+      await ctx.db.patch("traces", traceId, {
+        status: args.status,
+        updatedAt: Date.now(),
+      });
+      return;
+    }
+
+    await completeTrace(ctx, traceId, args.status, args);
   },
 });
 
+async function completeTrace(
+  ctx: MutationCtx,
+  traceId: Id<"traces">,
+  status: "success" | "error",
+  options: { exporter?: ExporterConfig; samplingRules?: SamplingRule[] },
+): Promise<void> {
+  const trace = await ctx.db.get("traces", traceId);
+  if (!trace) throw new Error(`Trace not found: ${traceId}`);
+
+  const sampleRate = options.samplingRules?.length
+    ? await applySamplingRules(ctx, trace, status, options.samplingRules)
+    : trace.sampleRate;
+
+  await ctx.db.patch("traces", traceId, {
+    status,
+    sampleRate,
+    updatedAt: Date.now(),
+  });
+
+  const retained = trace.preserve ?? isSampled(traceId, sampleRate);
+  if (options.exporter && retained) {
+    await enqueueDelivery(ctx, traceId, options.exporter);
+  }
+}
+
+async function applySamplingRules(
+  ctx: QueryCtx,
+  trace: Doc<"traces">,
+  status: "success" | "error",
+  rules: SamplingRule[],
+): Promise<number> {
+  const rootSpan = await ctx.db
+    .query("spans")
+    .withIndex("by_traceId", (q) => q.eq("traceId", trace._id))
+    .filter((q) => q.eq(q.field("parentSpanId"), undefined))
+    .first();
+
+  return resolveSampleRate(
+    rules,
+    {
+      functionName: rootSpan?.functionName ?? rootSpan?.spanName,
+      status,
+      duration: rootSpan?.duration,
+      userId: trace.userId,
+      tenantId: trace.tenantId,
+      metadata: { ...rootSpan?.metadata, ...trace.metadata },
+    },
+    trace.sampleRate,
+  );
+}
+
 /**
  * Updates the preserve flag on a trace.
  * Called when tracer.preserve(), tracer.discard(), or tracer.sample() is invoked.
@@ -81,27 +210,84 @@ export const updateTracePreserve = mutation({
   },
 });
 
+const vTraceMetadataUpdate = {
+  traceId: v.string(),
+  metadata: v.record(v.string(), v.any()),
+};
+
+type TraceMetadataUpdate = ObjectType<typeof vTraceMetadataUpdate>;
+
+/**
+ * Merges metadata into the trace's metadata, key by key, so concurrent
+ * updates of different keys from nested spans and functions all stick.
+ */
+async function mergeTraceMetadata(
+  ctx: MutationCtx,
+  { traceId, metadata }: TraceMetadataUpdate,
+): Promise<void> {
+  const trace = await ctx.db.get("traces", traceId as Id<"traces">);
+  if (!trace) throw new Error(`Trace not found: ${traceId}`);
+
+  await ctx.db.patch(trace._id, {
+    metadata: {
+      ...trace.metadata,
+      ...metadata,
+    },
+    updatedAt: Date.now(),
+  });
+}
+
 /**
  * Updates the trace metadata.
- * Called when tracer.setMetadata() is invoked.
+ * Called when tracer.setTraceMetadata() is invoked.
  */
 export const updateTraceMetadata = mutation({
-  args: {
-    traceId: v.string(),
-    metadata: v.record(v.string(), v.any()),
-  },
+  args: vTraceMetadataUpdate,
   returns: v.null(),
   handler: async (ctx, args): Promise<void> => {
-    const trace = await ctx.db.get("traces", args.traceId as Id<"traces">);
-    if (!trace) throw new Error(`Trace not found: ${args.traceId}`);
+    await mergeTraceMetadata(ctx, args);
+  },
+});
 
-    await ctx.db.patch("traces", args.traceId as Id<"traces">, {
-      metadata: {
-        ...trace.metadata,
-        ...args.metadata,
-      },
-      updatedAt: Date.now(),
-    });
+const vTraceTag = {
+  traceId: v.string(),
+  key: v.string(),
+  value: tagValueValidator,
+};
+
+type TraceTag = ObjectType<typeof vTraceTag>;
+
+/**
+ * Tags a trace unless it already has the same tag. A key can hold several
+ * values, e.g. every order a trace touched.
+ */
+async function insertTag(
+  ctx: MutationCtx,
+  { traceId, key, value }: TraceTag,
+): Promise<void> {
+  const trace = await ctx.db.get("traces", traceId as Id<"traces">);
+  if (!trace) throw new Error(`Trace not found: ${traceId}`);
+
+  const tags = await ctx.db
+    .query("tags")
+    .withIndex("by_traceId_and_key", (q) =>
+      q.eq("traceId", trace._id).eq("key", key),
+    )
+    .collect();
+  if (tags.some((tag) => tag.value === value)) return;
+
+  await ctx.db.insert("tags", { traceId: trace._id, key, value });
+}
+
+/**
+ * Tags a trace with a key and value it can be found by.
+ * Called when tracer.tag() is invoked.
+ */
+export const addTag = mutation({
+  args: vTraceTag,
+  returns: v.null(),
+  handler: async (ctx, args): Promise<void> => {
+    await insertTag(ctx, args);
   },
 });
 
@@ -128,9 +314,8 @@ export const createSpan = mutation({
   },
   returns: v.id("spans"),
   handler: async (ctx, args): Promise<Id<"spans">> => {
-    return await ctx.db.insert("spans", {
+    return await insertSpan(ctx, args.traceId as Id<"traces">, {
       ...args.span,
-      traceId: args.traceId as Id<"traces">,
       parentSpanId: args.span.parentSpanId
         ? (args.span.parentSpanId as Id<"spans">)
         : undefined,
@@ -138,28 +323,251 @@ export const createSpan = mutation({
   },
 });
 
+const vSpanStart = {
+  spanName: v.string(),
+  source: sourceValidator,
+  startTime: v.number(),
+  functionName: v.optional(v.string()),
+  args: v.optional(v.any()),
+};
+
+/**
+ * Creates a trace together with its root span.
+ * Called when a traced function is invoked without an existing trace context.
+ */
+export const startTrace = mutation({
+  args: {
+    ...vTraceStart,
+    span: v.object(vSpanStart),
+  },
+  returns: v.object({ traceId: v.id("traces"), spanId: v.id("spans") }),
+  handler: async (
+    ctx,
+    { span, ...trace },
+  ): Promise<{ traceId: Id<"traces">; spanId: Id<"spans"> }> => {
+    const traceId = await insertTrace(ctx, { ...trace, status: "pending" });
+    const spanId = await insertSpan(ctx, traceId, {
+      ...span,
+      status: "pending",
+    });
+    return { traceId, spanId };
+  },
+});
+
+/**
+ * Starts a span under a parent span of an existing trace.
+ * Called when a traced function is invoked with a trace context. The ids in
+ * the context can come from the frontend, so both are verified. A context
+ * carrying `scheduledAt` points at the span recorded by runTracedAfter or
+ * runTracedAt, which ends once the scheduled function starts. The client only
+ * passes it from internal or signed contexts.
+ */
+export const startSpan = mutation({
+  args: {
+    traceId: v.string(),
+    parentSpanId: v.string(),
+    scheduledAt: v.optional(v.number()),
+    span: v.object(vSpanStart),
+  },
+  returns: v.id("spans"),
+  handler: async (ctx, args): Promise<Id<"spans">> => {
+    const traceId = ctx.db.normalizeId("traces", args.traceId);
+    if (!traceId || !(await ctx.db.get("traces", traceId))) {
+      throw new Error("Cannot pass a traceId for a trace that doesn't exist");
+    }
+
+    const parentSpanId = ctx.db.normalizeId("spans", args.parentSpanId);
+    const parent = parentSpanId && (await ctx.db.get("spans", parentSpanId));
+    if (!parent || parent.traceId !== traceId) {
+      throw new Error("Cannot pass a spanId for a span that doesn't exist");
+    }
+
+    if (args.scheduledAt !== undefined) {
+      const completion = {
+        spanId: parent._id,
+        endTime: args.span.startTime,
+        duration: args.span.startTime - args.scheduledAt,
+        status: "success" as const,
+      };
+      await patchSpanCompletion(ctx, completion);
+      await scheduleSpanMetrics(ctx, toSpanSamples(parent, completion));
+    }
+
+    return await insertSpan(ctx, traceId, {
+      ...args.span,
+      parentSpanId: parent._id,
+      status: "pending",
+    });
+  },
+});
+
+async function insertSpan(
+  ctx: MutationCtx,
+  traceId: Id<"traces">,
+  span: WithoutSystemFields<Omit<Doc<"spans">, "traceId">>,
+): Promise<Id<"spans">> {
+  const spanId = await ctx.db.insert("spans", { ...span, traceId });
+
+  await updateTraceSummary(ctx, traceId, {
+    spans: 1,
+    functionName: span.parentSpanId
+      ? undefined
+      : (span.functionName ?? span.spanName),
+  });
+
+  return spanId;
+}
+
+const vSpanCompletion = {
+  spanId: v.string(),
+  endTime: v.number(),
+  duration: v.number(),
+  status: v.union(v.literal("success"), v.literal("error")),
+  result: v.optional(v.any()),
+  error: v.optional(v.string()),
+  exception: v.optional(exceptionValidator),
+};
+
+const vSpanException = {
+  spanId: v.string(),
+  exception: exceptionValidator,
+};
+
+const vSpanMetadataUpdate = {
+  spanId: v.string(),
+  metadata: v.record(v.string(), v.any()),
+};
+
+type SpanCompletion = ObjectType<typeof vSpanCompletion>;
+type SpanMetadataUpdate = ObjectType<typeof vSpanMetadataUpdate>;
+type SpanException = ObjectType<typeof vSpanException>;
+
+type TraceSummaryUpdate = {
+  spans?: number;
+  logs?: number;
+  errors?: number;
+  duration?: number;
+  functionName?: string;
+};
+
+/**
+ * Keeps the trace's counters, root function name and duration in sync so
+ * trace lists don't need to load every span.
+ */
+async function updateTraceSummary(
+  ctx: MutationCtx,
+  traceId: Id<"traces">,
+  update: TraceSummaryUpdate,
+): Promise<void> {
+  const trace = await ctx.db.get("traces", traceId);
+  if (!trace) throw new Error(`Trace not found: ${traceId}`);
+
+  await ctx.db.patch("traces", traceId, {
+    spanCount: (trace.spanCount ?? 0) + (update.spans ?? 0),
+    logCount: (trace.logCount ?? 0) + (update.logs ?? 0),
+    errorCount: (trace.errorCount ?? 0) + (update.errors ?? 0),
+    duration: update.duration ?? trace.duration,
+    functionName: trace.functionName ?? update.functionName,
+    updatedAt: Date.now(),
+  });
+}
+
+/**
+ * Completes a pending span. `expected` restricts it to a span of the given
+ * trace and source, for completions sent by a client.
+ */
+async function patchSpanCompletion(
+  ctx: MutationCtx,
+  { spanId, ...completion }: SpanCompletion,
+  expected?: { traceId: Id<"traces">; source: Doc<"spans">["source"] },
+): Promise<Doc<"spans">> {
+  const span = await ctx.db.get("spans", spanId as Id<"spans">);
+  if (!span) throw new Error(`Span not found: ${spanId}`);
+  if (
+    expected &&
+    (span.traceId !== expected.traceId || span.source !== expected.source)
+  ) {
+    throw new Error(`Not a ${expected.source} span: ${spanId}`);
+  }
+  if (span.status !== "pending") {
+    throw new Error(`Span already completed: ${spanId}`);
+  }
+
+  await ctx.db.patch("spans", span._id, {
+    endTime: completion.endTime,
+    duration: completion.duration,
+    status: completion.status,
+    result: completion.result,
+    error: completion.error,
+    exceptions: completion.exception
+      ? [...(span.exceptions ?? []), completion.exception]
+      : span.exceptions,
+  });
+
+  await updateTraceSummary(ctx, span.traceId, {
+    errors: completion.status === "error" ? 1 : 0,
+    duration: span.parentSpanId ? undefined : completion.duration,
+  });
+
+  return span;
+}
+
+/**
+ * The metrics sample of a completed span, if it belongs to a traced function.
+ */
+function toSpanSamples(
+  span: Doc<"spans">,
+  completion: SpanCompletion,
+): SpanSample[] {
+  if (!span.functionName) return [];
+  return [
+    {
+      traceId: span.traceId,
+      functionName: span.functionName,
+      endTime: completion.endTime,
+      duration: completion.duration,
+      status: completion.status,
+    },
+  ];
+}
+
+async function appendSpanException(
+  ctx: MutationCtx,
+  { spanId, exception }: SpanException,
+): Promise<void> {
+  const span = await ctx.db.get("spans", spanId as Id<"spans">);
+  if (!span) throw new Error(`Span not found: ${spanId}`);
+
+  await ctx.db.patch("spans", span._id, {
+    exceptions: [...(span.exceptions ?? []), exception],
+  });
+}
+
+async function mergeSpanMetadata(
+  ctx: MutationCtx,
+  { spanId, metadata }: SpanMetadataUpdate,
+): Promise<void> {
+  const span = await ctx.db.get("spans", spanId as Id<"spans">);
+  if (!span) throw new Error(`Span not found: ${spanId}`);
+
+  await ctx.db.patch(span._id, {
+    metadata: {
+      ...span.metadata,
+      ...metadata,
+    },
+  });
+}
+
 /**
  * Completes a span by updating its end time, duration, status, and optional result/error.
  * Called automatically when a traced function completes or when withSpan() finishes.
  */
 export const completeSpan = mutation({
-  args: {
-    spanId: v.string(),
-    endTime: v.number(),
-    duration: v.number(),
-    status: v.union(v.literal("success"), v.literal("error")),
-    result: v.optional(v.any()),
-    error: v.optional(v.string()),
-  },
+  args: vSpanCompletion,
   returns: v.null(),
   handler: async (ctx, args): Promise<void> => {
-    await ctx.db.patch("spans", args.spanId as Id<"spans">, {
-      endTime: args.endTime,
-      duration: args.duration,
-      status: args.status,
-      result: args.result,
-      error: args.error,
-    });
+    const span = await patchSpanCompletion(ctx, args);
+    await scheduleSpanMetrics(ctx, toSpanSamples(span, args));
   },
 });
 
@@ -168,21 +576,22 @@ export const completeSpan = mutation({
  * Called when span.setMetadata() is invoked within withSpan().
  */
 export const updateSpanMetadata = mutation({
-  args: {
-    spanId: v.string(),
-    metadata: v.record(v.string(), v.any()),
+  args: vSpanMetadataUpdate,
+  returns: v.null(),
+  handler: async (ctx, args): Promise<void> => {
+    await mergeSpanMetadata(ctx, args);
   },
+});
+
+/**
+ * Attaches an exception to a span without changing its status.
+ * Called when tracer.recordException() or span.recordException() is invoked.
+ */
+export const recordException = mutation({
+  args: vSpanException,
   returns: v.null(),
   handler: async (ctx, args): Promise<void> => {
-    const span = await ctx.db.get("spans", args.spanId as Id<"spans">);
-    if (!span) throw new Error(`Span not found: ${args.spanId}`);
-
-    await ctx.db.patch(span._id, {
-      metadata: {
-        ...span.metadata,
-        ...args.metadata,
-      },
-    });
+    await appendSpanException(ctx, args);
   },
 });
 
@@ -190,6 +599,30 @@ export const updateSpanMetadata = mutation({
 // Log Operations
 // ============================================================================
 
+const vLogEntry = v.object({
+  timestamp: v.number(),
+  severity: severityValidator,
+  message: v.string(),
+  metadata: v.optional(v.record(v.string(), v.any())),
+});
+
+async function insertLog(
+  ctx: MutationCtx,
+  spanId: string,
+  log: Infer<typeof vLogEntry>,
+): Promise<Id<"logs">> {
+  const span = await ctx.db.get("spans", spanId as Id<"spans">);
+  if (!span) throw new Error(`Span not found: ${spanId}`);
+
+  const logId = await ctx.db.insert("logs", {
+    spanId: span._id,
+    ...log,
+  });
+  await updateTraceSummary(ctx, span.traceId, { logs: 1 });
+
+  return logId;
+}
+
 /**
  * Adds a log entry to a specific span.
  * Called when tracer.info(), tracer.warn(), or tracer.error() is invoked.
@@ -197,22 +630,248 @@ export const updateSpanMetadata = mutation({
 export const addLog = mutation({
   args: {
     spanId: v.string(),
-    log: v.object({
-      timestamp: v.number(),
-      severity: severityValidator,
-      message: v.string(),
-      metadata: v.optional(v.record(v.string(), v.any())),
-    }),
+    log: vLogEntry,
   },
   returns: v.id("logs"),
   handler: async (ctx, args): Promise<Id<"logs">> => {
-    const span = await ctx.db.get("spans", args.spanId as Id<"spans">);
-    if (!span) throw new Error(`Span not found: ${args.spanId}`);
+    return await insertLog(ctx, args.spanId, args.log);
+  },
+});
+
+// ============================================================================
+// Batch Operations
+// ============================================================================
 
-    return await ctx.db.insert("logs", {
-      spanId: span._id,
-      ...args.log,
+/**
+ * Applies buffered trace and span metadata, logs, exceptions and span
+ * completions in one transaction.
+ * Called when a traced function with `bufferWrites` completes or flushes.
+ */
+export const writeBatch = mutation({
+  args: {
+    traceMetadata: v.optional(v.array(v.object(vTraceMetadataUpdate))),
+    tags: v.optional(v.array(v.object(vTraceTag))),
+    spanMetadata: v.optional(v.array(v.object(vSpanMetadataUpdate))),
+    logs: v.optional(v.array(v.object({ spanId: v.string(), log: vLogEntry }))),
+    exceptions: v.optional(v.array(v.object(vSpanException))),
+    completions: v.optional(v.array(v.object(vSpanCompletion))),
+  },
+  returns: v.null(),
+  handler: async (ctx, args): Promise<void> => {
+    for (const update of args.traceMetadata ?? []) {
+      await mergeTraceMetadata(ctx, update);
+    }
+    for (const tag of args.tags ?? []) {
+      await insertTag(ctx, tag);
+    }
+    for (const update of args.spanMetadata ?? []) {
+      await mergeSpanMetadata(ctx, update);
+    }
+    for (const { spanId, log } of args.logs ?? []) {
+      await insertLog(ctx, spanId, log);
+    }
+    for (const exception of args.exceptions ?? []) {
+      await appendSpanException(ctx, exception);
+    }
+    const samples: SpanSample[] = [];
+    for (const completion of args.completions ?? []) {
+      const span = await patchSpanCompletion(ctx, completion);
+      samples.push(...toSpanSamples(span, completion));
+    }
+    await scheduleSpanMetrics(ctx, samples);
+  },
+});
+
+/**
+ * Writes everything a traced function has left when it returns in one
+ * transaction: buffered trace and span metadata, logs and exceptions, and
+ * the span completions including its own.
+ *
+ * `start` creates a trace that was only recorded in memory because it wasn't
+ * head sampled. Its spans carry local ids, which the other entries may refer
+ * to; the ids of the new trace and its first span are returned.
+ * `status` completes the trace, like updateTraceStatus, and `cleanupAfterMs`
+ * schedules its cleanup.
+ *
+ * `source` is set for spans finished by a client: the completions must then
+ * be pending spans of the trace with that source, and `status` and
+ * `cleanupAfterMs` only apply when the trace's root span is among them.
+ */
+export const finish = mutation({
+  args: {
+    traceId: v.optional(v.string()),
+    source: v.optional(sourceValidator),
+    start: v.optional(
+      v.object({
+        trace: v.object(vTraceStart),
+        spans: v.array(
+          v.object({
+            localId: v.string(),
+            parentSpanId: v.optional(v.string()),
+            ...vSpanStart,
+          }),
+        ),
+        tags: v.optional(v.array(vTag)),
+      }),
+    ),
+    traceMetadata: v.optional(v.array(v.object(vTraceMetadataUpdate))),
+    tags: v.optional(v.array(v.object(vTraceTag))),
+    spanMetadata: v.optional(v.array(v.object(vSpanMetadataUpdate))),
+    logs: v.optional(v.array(v.object({ spanId: v.string(), log: vLogEntry }))),
+    exceptions: v.optional(v.array(v.object(vSpanException))),
+    completions: v.optional(v.array(v.object(vSpanCompletion))),
+    status: v.optional(v.union(v.literal("success"), v.literal("error"))),
+    exporter: v.optional(vExporterConfig),
+    samplingRules: v.optional(v.array(vSamplingRule)),
+    cleanupAfterMs: v.optional(v.number()),
+  },
+  returns: v.union(
+    v.null(),
+    v.object({ traceId: v.id("traces"), spanId: v.id("spans") }),
+  ),
+  handler: async (
+    ctx,
+    args,
+  ): Promise<{ traceId: Id<"traces">; spanId: Id<"spans"> } | null> => {
+    const localIds = new Map<string, Id<"spans">>();
+    const resolve = (spanId: string) => localIds.get(spanId) ?? spanId;
+
+    let traceId = args.traceId as Id<"traces"> | undefined;
+    if (args.start) {
+      traceId = await insertTrace(ctx, {
+        ...args.start.trace,
+        status: "pending",
+      });
+      for (const { localId, parentSpanId, ...span } of args.start.spans) {
+        const spanId = await insertSpan(ctx, traceId, {
+          ...span,
+          parentSpanId: parentSpanId
+            ? (resolve(parentSpanId) as Id<"spans">)
+            : undefined,
+          status: "pending",
+        });
+        localIds.set(localId, spanId);
+      }
+      for (const tag of args.start.tags ?? []) {
+        await insertTag(ctx, { ...tag, traceId });
+      }
+    }
+    if (!traceId) throw new Error("Either traceId or start must be passed");
+
+    for (const update of args.traceMetadata ?? []) {
+      await mergeTraceMetadata(ctx, update);
+    }
+    for (const tag of args.tags ?? []) {
+      await insertTag(ctx, tag);
+    }
+    for (const update of args.spanMetadata ?? []) {
+      await mergeSpanMetadata(ctx, {
+        ...update,
+        spanId: resolve(update.spanId),
+      });
+    }
+    for (const { spanId, log } of args.logs ?? []) {
+      await insertLog(ctx, resolve(spanId), log);
+    }
+    for (const exception of args.exceptions ?? []) {
+      await appendSpanException(ctx, {
+        ...exception,
+        spanId: resolve(exception.spanId),
+      });
+    }
+    let completesRoot = false;
+    const samples: SpanSample[] = [];
+    for (const completion of args.completions ?? []) {
+      const span = await patchSpanCompletion(
+        ctx,
+        { ...completion, spanId: resolve(completion.spanId) },
+        args.source && { traceId, source: args.source },
+      );
+      completesRoot ||= !span.parentSpanId;
+      samples.push(...toSpanSamples(span, completion));
+    }
+    await scheduleSpanMetrics(ctx, samples);
+
+    const completesTrace = !args.source || completesRoot;
+    if (args.status && completesTrace) {
+      await completeTrace(ctx, traceId, args.status, args);
+    }
+    if (args.cleanupAfterMs !== undefined && completesTrace) {
+      await ctx.scheduler.runAfter(args.cleanupAfterMs, api.lib.cleanupTrace, {
+        traceId,
+        retentionMs: args.cleanupAfterMs,
+      });
+    }
+
+    const [first] = localIds.values();
+    return first ? { traceId, spanId: first } : null;
+  },
+});
+
+/**
+ * Persists a trace that was recorded in memory, e.g. by a reactive traced
+ * query that can't write while it runs. Returns the new trace's id.
+ * Its spans only count toward function metrics with `metrics`, which is set
+ * for snapshots whose signature was verified.
+ */
+export const importTrace = mutation({
+  args: {
+    userId: v.string(),
+    tenantId: v.optional(v.string()),
+    identity: v.optional(v.record(v.string(), v.any())),
+    snapshot: vTraceSnapshot,
+    metrics: v.optional(v.boolean()),
+  },
+  returns: v.id("traces"),
+  handler: async (
+    ctx,
+    { snapshot, metrics, ...identity },
+  ): Promise<Id<"traces">> => {
+    const traceId = await insertTrace(ctx, {
+      ...identity,
+      status: "pending",
+      sampleRate: snapshot.sampleRate,
+      preserve: snapshot.preserve,
+      metadata: snapshot.metadata,
+      source: "backend",
     });
+    for (const tag of snapshot.tags ?? []) {
+      await insertTag(ctx, { ...tag, traceId });
+    }
+
+    const spanIds = new Map<string, Id<"spans">>();
+    const samples: SpanSample[] = [];
+    for (const { id, parentId, logs, ...span } of snapshot.spans) {
+      const spanId = await insertSpan(ctx, traceId, {
+        parentSpanId: parentId ? spanIds.get(parentId) : undefined,
+        spanName: span.spanName,
+        source: "backend",
+        startTime: span.startTime,
+        status: "pending",
+        functionName: span.functionName,
+        args: span.args,
+        metadata: span.metadata,
+        exceptions: span.exceptions,
+      });
+      spanIds.set(id, spanId);
+
+      for (const log of logs) {
+        await insertLog(ctx, spanId, log);
+      }
+      const completion = {
+        spanId,
+        endTime: span.endTime,
+        duration: span.duration,
+        status: span.status,
+        result: span.result,
+        error: span.error,
+      };
+      const inserted = await patchSpanCompletion(ctx, completion);
+      samples.push(...toSpanSamples(inserted, completion));
+    }
+    if (metrics) await scheduleSpanMetrics(ctx, samples);
+
+    return traceId;
   },
 });
 
@@ -252,145 +911,183 @@ export const getTrace = query({
   args: { traceId: v.string() },
   returns: v.union(v.null(), vCompleteTrace),
   handler: async (ctx, { traceId }) => {
-    const trace = await ctx.db.get("traces", traceId as Id<"traces">);
-    if (!trace) return null;
+    return await getCompleteTrace(ctx, traceId as Id<"traces">);
+  },
+});
 
-    const spans = await ctx.db
-      .query("spans")
-      .withIndex("by_traceId", (q) => q.eq("traceId", traceId as Id<"traces">))
-      .collect();
+/**
+ * Retrieves a trace without its spans, as it is listed.
+ */
+export const getTraceSummary = query({
+  args: { traceId: v.string() },
+  returns: v.union(v.null(), vTrace),
+  handler: async (ctx, { traceId }) => {
+    const id = ctx.db.normalizeId("traces", traceId);
+    return id && (await ctx.db.get("traces", id));
+  },
+});
 
-    const spansWithLogs = await Promise.all(
-      spans.map(async (span) => ({
-        ...span,
-        children: [],
-        logs: await ctx.db
-          .query("logs")
-          .withIndex("by_spanId", (q) => q.eq("spanId", span._id))
-          .collect(),
-      })),
-    );
+const vTraceFilters = {
+  status: v.optional(statusValidator),
+  userId: v.optional(v.string()),
+  tenantId: v.optional(v.string()),
+  metadata: v.optional(v.record(v.string(), v.any())),
+};
 
-    const spanMap = new Map(spansWithLogs.map((span) => [span._id, span]));
+const vSearchFilters = {
+  functionName: v.string(),
+  ...vTraceFilters,
+};
 
-    spansWithLogs.forEach((span) => {
-      if (span.parentSpanId) {
-        const parentSpan = spanMap.get(span.parentSpanId);
-        if (parentSpan) {
-          (parentSpan.children as any[]).push(span);
-        }
-      }
-    });
+type TraceFilters = ObjectType<typeof vTraceFilters>;
+type SearchFilters = ObjectType<typeof vSearchFilters>;
 
-    const sortSpanChildren = (span: (typeof spansWithLogs)[0]) => {
-      if (span.children.length > 0) {
-        (span.children as any[]).sort(
-          (a, b) => a._creationTime - b._creationTime,
-        );
-        span.children.forEach(sortSpanChildren);
-      }
-    };
+/**
+ * Builds the most selective index query for the given filters, newest first.
+ * Metadata has no index, so its values are matched while scanning.
+ */
+function queryTraces(
+  ctx: QueryCtx,
+  { status, userId, tenantId, metadata }: TraceFilters,
+) {
+  return matchMetadata(
+    indexTraces(ctx, { status, userId, tenantId }),
+    metadata,
+  );
+}
 
-    const rootSpans = spansWithLogs
-      .filter((span) => !span.parentSpanId)
-      .sort((a, b) => a._creationTime - b._creationTime);
+function indexTraces(
+  ctx: QueryCtx,
+  { status, userId, tenantId }: Omit<TraceFilters, "metadata">,
+) {
+  const query = ctx.db.query("traces");
 
-    rootSpans.forEach(sortSpanChildren);
+  if (tenantId) {
+    const tenantTraces = status
+      ? query.withIndex("by_status_and_tenantId", (q) =>
+          q.eq("status", status).eq("tenantId", tenantId),
+        )
+      : query.withIndex("by_tenantId", (q) => q.eq("tenantId", tenantId));
+    return (
+      userId
+        ? tenantTraces.filter((q) => q.eq(q.field("userId"), userId))
+        : tenantTraces
+    ).order("desc");
+  }
+  if (status && userId) {
+    return query
+      .withIndex("by_status_and_userId", (q) =>
+        q.eq("status", status).eq("userId", userId),
+      )
+      .order("desc");
+  }
+  if (status) {
+    return query
+      .withIndex("by_status", (q) => q.eq("status", status))
+      .order("desc");
+  }
+  if (userId) {
+    return query
+      .withIndex("by_userId", (q) => q.eq("userId", userId))
+      .order("desc");
+  }
+  return query.order("desc");
+}
 
-    return { ...trace, spans: rootSpans };
-  },
-});
+/**
+ * Builds a full text search over the trace function names, ordered by relevance.
+ */
+function querySearchTraces(
+  ctx: QueryCtx,
+  { functionName, status, userId, tenantId, metadata }: SearchFilters,
+) {
+  const results = ctx.db
+    .query("traces")
+    .withSearchIndex("by_function_name", (q) => {
+      let search = q.search("functionName", functionName);
+      if (status) search = search.eq("status", status);
+      if (userId) search = search.eq("userId", userId);
+      if (tenantId) search = search.eq("tenantId", tenantId);
+      return search;
+    });
+  return matchMetadata(results, metadata);
+}
+
+/**
+ * Keeps the traces whose metadata has each of the given values.
+ */
+function matchMetadata<Query extends OrderedQuery<DataModel["traces"]>>(
+  query: Query,
+  metadata: Record<string, any> | undefined,
+): Query {
+  if (!metadata || Object.keys(metadata).length === 0) return query;
+  return query.filter((q) =>
+    q.and(
+      ...Object.entries(metadata).map(([key, value]) =>
+        q.eq(q.field(`metadata.${key}`), value),
+      ),
+    ),
+  ) as Query;
+}
 
 /**
- * Lists traces with optional filtering by status.
+ * Lists traces with optional filtering by status, user, tenant and metadata.
  */
 export const listTraces = query({
   args: {
-    status: v.optional(statusValidator),
-    userId: v.optional(v.string()),
+    ...vTraceFilters,
     limit: v.optional(v.number()),
   },
   returns: v.array(vTrace),
-  handler: async (ctx, { status, userId, limit }) => {
-    const query = ctx.db.query("traces");
-
-    if (status && !userId) {
-      const q = query
-        .withIndex("by_status", (q) => q.eq("status", status))
-        .order("desc");
-
-      if (limit) return await q.take(limit);
-      else return await q.collect();
-    } else if (!status && userId) {
-      const q = query
-        .withIndex("by_userId", (q) => q.eq("userId", userId))
-        .order("desc");
-
-      if (limit) return await q.take(limit);
-      else return await q.collect();
-    } else if (status && userId) {
-      const q = query
-        .withIndex("by_status_and_userId", (q) =>
-          q.eq("status", status).eq("userId", userId),
-        )
-        .order("desc");
-
-      if (limit) return await q.take(limit);
-      else return await q.collect();
-    }
-
-    const q = query.order("desc");
+  handler: async (ctx, { limit, ...filters }) => {
+    const q = queryTraces(ctx, filters);
     if (limit) return await q.take(limit);
     else return await q.collect();
   },
 });
 
+/**
+ * Lists traces one page at a time with optional filtering by status, user,
+ * tenant and metadata.
+ */
+export const listTracesPaginated = query({
+  args: {
+    ...vTraceFilters,
+    paginationOpts: paginationOptsValidator,
+  },
+  returns: paginationResultValidator(vTrace),
+  handler: async (ctx, { paginationOpts, ...filters }) => {
+    return await queryTraces(ctx, filters).paginate(paginationOpts);
+  },
+});
+
 export const searchTraces = query({
   args: {
-    functionName: v.string(),
-    userId: v.optional(v.string()),
-    status: v.optional(statusValidator),
+    ...vSearchFilters,
     limit: v.optional(v.number()),
   },
   returns: v.array(vTrace),
-  handler: async (ctx, { functionName, limit, userId, status }) => {
-    const query = ctx.db.query("traces");
-
-    if (userId && !status) {
-      const q = query.withSearchIndex("by_function_name", (q) =>
-        q.search("functionName", functionName).eq("userId", userId),
-      );
-
-      if (limit) return await q.take(limit);
-      else return await q.collect();
-    } else if (status && !userId) {
-      const q = query.withSearchIndex("by_function_name", (q) =>
-        q.search("functionName", functionName).eq("status", status),
-      );
-
-      if (limit) return await q.take(limit);
-      else return await q.collect();
-    } else if (userId && status) {
-      const q = query.withSearchIndex("by_function_name", (q) =>
-        q
-          .search("functionName", functionName)
-          .eq("userId", userId)
-          .eq("status", status),
-      );
-
-      if (limit) return await q.take(limit);
-      else return await q.collect();
-    }
-
-    const q = query.withSearchIndex("by_function_name", (q) =>
-      q.search("functionName", functionName),
-    );
-
+  handler: async (ctx, { limit, ...filters }) => {
+    const q = querySearchTraces(ctx, filters);
     if (limit) return await q.take(limit);
     else return await q.collect();
   },
 });
 
+/**
+ * Searches traces by function name one page at a time.
+ */
+export const searchTracesPaginated = query({
+  args: {
+    ...vSearchFilters,
+    paginationOpts: paginationOptsValidator,
+  },
+  returns: paginationResultValidator(vTrace),
+  handler: async (ctx, { paginationOpts, ...filters }) => {
+    return await querySearchTraces(ctx, filters).paginate(paginationOpts);
+  },
+});
+
 // ============================================================================
 // Cleanup Operations
 // ============================================================================
@@ -402,6 +1099,7 @@ export const searchTraces = query({
 export const cleanupTrace = mutation({
   args: {
     traceId: v.string(),
+    retentionMs: v.optional(v.number()),
   },
   returns: v.null(),
   handler: async (ctx, args) => {
@@ -412,21 +1110,150 @@ export const cleanupTrace = mutation({
     // Always keep explicitly preserved traces
     if (trace.preserve === true) return;
 
+    // Leave traces with a traced function still waiting on the scheduler and
+    // look again a retention window after it was due. A scheduled span still
+    // pending by then belongs to a function that never started, e.g. one that
+    // was cancelled or isn't traced, and no longer holds the trace.
+    const { retentionMs = DEFAULT_RETENTION_MS } = args;
+    const spans = await ctx.db
+      .query("spans")
+      .withIndex("by_traceId", (q) => q.eq("traceId", trace._id))
+      .collect();
+    const waitUntil = Math.max(
+      0,
+      ...spans
+        .filter((span) => span.status === "pending")
+        .map((span) => span.metadata?.scheduledFor)
+        .filter((scheduledFor) => typeof scheduledFor === "number")
+        .map((scheduledFor) => scheduledFor + retentionMs),
+    );
+    if (waitUntil > Date.now()) {
+      await ctx.scheduler.runAt(waitUntil, api.lib.cleanupTrace, {
+        traceId: trace._id,
+        retentionMs,
+      });
+      return;
+    }
+
     // Always delete explicitly discarded traces
     if (trace.preserve === false) {
-      return await deleteTrace(ctx, trace._id);
+      return await deleteTraceRecords(ctx, trace._id);
     }
 
     // Apply sampling for undefined preserve status
-    const random = Math.random();
-    if (random >= trace.sampleRate) await deleteTrace(ctx, trace._id);
+    if (!isSampled(trace._id, trace.sampleRate)) {
+      await deleteTraceRecords(ctx, trace._id);
+    }
   },
 });
 
 /**
- * Deletes a trace and all its associated spans and logs.
+ * Finds the traces tagged with a key and value, most recently tagged first,
+ * up to `limit` (100 by default, 1000 at most). `userId` keeps only that
+ * user's traces; they are filtered before `limit` applies, so other users'
+ * traces don't take up the result.
  */
-async function deleteTrace(
+export const findTracesByTag = query({
+  args: {
+    key: v.string(),
+    value: tagValueValidator,
+    limit: v.optional(v.number()),
+    userId: v.optional(v.string()),
+  },
+  returns: v.array(vTrace),
+  handler: async (ctx, { key, value, limit, userId }) => {
+    const tags = ctx.db
+      .query("tags")
+      .withIndex("by_key_and_value", (q) => q.eq("key", key).eq("value", value))
+      .order("desc");
+
+    const max = Math.min(limit ?? DEFAULT_TAG_LIMIT, MAX_TAG_LIMIT);
+    const traces: Doc<"traces">[] = [];
+    for await (const tag of tags) {
+      if (traces.length >= max) break;
+      const trace = await ctx.db.get("traces", tag.traceId);
+      if (!trace || (userId && trace.userId !== userId)) continue;
+      traces.push(trace);
+    }
+    return traces;
+  },
+});
+
+/**
+ * Deletes a trace with its spans, logs, tags and deliveries right away,
+ * whether or not it is preserved.
+ */
+export const deleteTrace = mutation({
+  args: { traceId: v.string() },
+  returns: v.null(),
+  handler: async (ctx, { traceId }) => {
+    const id = ctx.db.normalizeId("traces", traceId);
+    if (id && (await ctx.db.get("traces", id))) {
+      await deleteTraceRecords(ctx, id);
+    }
+  },
+});
+
+/**
+ * Loads a trace with its spans and logs, nesting child spans under their parents.
+ */
+export async function getCompleteTrace(
+  ctx: QueryCtx,
+  traceId: Id<"traces">,
+): Promise<CompleteTrace | null> {
+  const trace = await ctx.db.get("traces", traceId);
+  if (!trace) return null;
+
+  const spans = await ctx.db
+    .query("spans")
+    .withIndex("by_traceId", (q) => q.eq("traceId", traceId))
+    .collect();
+
+  const spansWithLogs = await Promise.all(
+    spans.map(async (span) => ({
+      ...span,
+      children: [],
+      logs: await ctx.db
+        .query("logs")
+        .withIndex("by_spanId", (q) => q.eq("spanId", span._id))
+        .collect(),
+    })),
+  );
+
+  const spanMap = new Map(spansWithLogs.map((span) => [span._id, span]));
+
+  spansWithLogs.forEach((span) => {
+    if (span.parentSpanId) {
+      const parentSpan = spanMap.get(span.parentSpanId);
+      if (parentSpan) {
+        (parentSpan.children as any[]).push(span);
+      }
+    }
+  });
+
+  const sortSpanChildren = (span: (typeof spansWithLogs)[0]) => {
+    if (span.children.length > 0) {
+      (span.children as any[]).sort(
+        (a, b) => a._creationTime - b._creationTime,
+      );
+      span.children.forEach(sortSpanChildren);
+    }
+  };
+
+  const rootSpans = spansWithLogs
+    .filter((span) => !span.parentSpanId)
+    .sort((a, b) => a._creationTime - b._creationTime);
+
+  rootSpans.forEach(sortSpanChildren);
+
+  return { ...trace, spans: rootSpans };
+}
+
+/**
+ * Deletes a trace and all its associated spans, logs, tags and outbox
+ * deliveries.
+ */
+async function deleteTraceRecords(
   ctx: MutationCtx,
   traceId: Id<"traces">,
 ): Promise<void> {
@@ -444,7 +1271,19 @@ async function deleteTrace(
 
   const logs = await Promise.all(logsRequest);
 
+  const tags = await ctx.db
+    .query("tags")
+    .withIndex("by_traceId_and_key", (q) => q.eq("traceId", traceId))
+    .collect();
+
+  const deliveries = await ctx.db
+    .query("deliveries")
+    .withIndex("by_traceId", (q) => q.eq("traceId", traceId))
+    .collect();
+
   const deletionRequests = [
+    ...deliveries.map((delivery) => ctx.db.delete(delivery._id)),
+    ...tags.map((tag) => ctx.db.delete(tag._id)),
     ...logs.flat().map((log) => ctx.db.delete(log._id)),
     ...spans.map((span) => ctx.db.delete(span._id)),
     ctx.db.delete(traceId),
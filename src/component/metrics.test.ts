@@ -0,0 +1,151 @@
+/// <reference types="vite/client" />
+import { afterEach, describe, expect, test, vi } from "vitest";
+import { api } from "./_generated/api.js";
+import { initConvexTest } from "./setup.test.js";
+import {
+  addToSketch,
+  emptySketch,
+  getQuantile,
+  mergeSketches,
+} from "./sketch.js";
+
+const HOUR = 60 * 60 * 1000;
+
+async function completeCall(
+  t: ReturnType<typeof initConvexTest>,
+  endTime: number,
+  duration: number,
+  status: "success" | "error" = "success",
+) {
+  const traceId = await t.mutation(api.lib.createTrace, {
+    status: "pending",
+    sampleRate: 0,
+    source: "backend",
+    userId: "anonymous",
+  });
+  const spanId = await t.mutation(api.lib.createSpan, {
+    traceId,
+    span: {
+      spanName: "createOrder",
+      functionName: "createOrder",
+      source: "backend",
+      startTime: endTime - duration,
+      status: "pending",
+    },
+  });
+  await t.mutation(api.lib.completeSpan, {
+    spanId,
+    endTime,
+    duration,
+    status,
+  });
+  return traceId;
+}
+
+describe("sketch", () => {
+  test("quantiles stay within 1% and merge across sketches", () => {
+    let a = emptySketch();
+    let b = emptySketch();
+    for (let i = 1; i <= 1000; i++) {
+      if (i % 2) a = addToSketch(a, i);
+      else b = addToSketch(b, i);
+    }
+    const merged = mergeSketches(a, b);
+
+    expect(getQuantile(merged, 0.5)).toBeCloseTo(500, -1);
+    expect(Math.abs(getQuantile(merged, 0.99)! - 990) / 990).toBeLessThan(0.01);
+    expect(getQuantile(emptySketch(), 0.5)).toBeUndefined();
+    expect(getQuantile(addToSketch(emptySketch(), 0), 0.5)).toBe(0);
+  });
+});
+
+describe("function metrics", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test("rolls span completions into buckets that outlive traces", async () => {
+    vi.useFakeTimers();
+    const t = initConvexTest();
+    const start = 10 * HOUR;
+
+    const traceIds = [
+      await completeCall(t, start + 1000, 100),
+      await completeCall(t, start + 2000, 300, "error"),
+      await completeCall(t, start + 61_000, 200),
+    ];
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+    for (const traceId of traceIds) {
+      await t.mutation(api.lib.cleanupTrace, { traceId });
+    }
+    expect(await t.query(api.lib.listTraces, {})).toHaveLength(0);
+
+    const minutes = await t.query(api.metrics.getFunctionMetrics, {
+      functionName: "createOrder",
+      from: start,
+      to: start + HOUR,
+    });
+    expect(minutes.buckets.map((b) => [b.bucketStart, b.count])).toEqual([
+      [start, 2],
+      [start + 60_000, 1],
+    ]);
+    expect(minutes.buckets[0]).toMatchObject({
+      errorCount: 1,
+      errorRate: 0.5,
+      avgDuration: 200,
+      minDuration: 100,
+      maxDuration: 300,
+    });
+    expect(minutes.total).toMatchObject({ count: 3, errorCount: 1 });
+    expect(minutes.total.p50).toBeCloseTo(200, -1);
+
+    const hours = await t.query(api.metrics.getFunctionMetrics, {
+      functionName: "createOrder",
+      from: start,
+      to: start + HOUR,
+      bucket: "hour",
+    });
+    expect(hours.buckets).toHaveLength(1);
+    expect(hours.buckets[0].count).toBe(3);
+  });
+
+  test("weights spans of head sampled traces by their sample rate", async () => {
+    vi.useFakeTimers();
+    const t = initConvexTest();
+    const start = 10 * HOUR;
+
+    for (const [preserve, status] of [
+      [undefined, "success"],
+      [true, "error"],
+    ] as const) {
+      const { spanId } = await t.mutation(api.lib.startTrace, {
+        sampleRate: 1,
+        headSampleRate: 0.25,
+        preserve,
+        source: "backend",
+        userId: "anonymous",
+        span: {
+          spanName: "createOrder",
+          functionName: "createOrder",
+          source: "backend",
+          startTime: start,
+        },
+      });
+      await t.mutation(api.lib.completeSpan, {
+        spanId,
+        endTime: start + 100,
+        duration: 100,
+        status,
+      });
+    }
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    // The sampled call stands for four, the preserved failure only for itself
+    const { total } = await t.query(api.metrics.getFunctionMetrics, {
+      functionName: "createOrder",
+      from: start,
+      to: start + HOUR,
+    });
+    expect(total).toMatchObject({ count: 5, errorCount: 1, errorRate: 0.2 });
+  });
+});
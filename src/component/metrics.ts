@@ -0,0 +1,214 @@
+/**
+ * Per-function latency and error-rate rollups.
+ * Every completed span of a traced function is counted in a minute and an
+ * hour bucket. Buckets live in their own table, so they outlive the traces
+ * that `cleanupTrace` samples away.
+ * Spans are counted by a scheduled mutation rather than in the mutation that
+ * completes them, so concurrent traced functions don't conflict on the shared
+ * buckets; the rollup is retried on conflict instead.
+ * Spans of head sampled traces count 1/sampleRate times, standing in for the
+ * unsampled calls that were never written.
+ */
+import { v, type Infer } from "convex/values";
+import { internal } from "./_generated/api.js";
+import {
+  internalMutation,
+  query,
+  type MutationCtx,
+} from "./_generated/server.js";
+import type { Doc, Id } from "./_generated/dataModel.js";
+import { metricsBucketValidator } from "./schema.js";
+import {
+  addToSketch,
+  emptySketch,
+  getQuantile,
+  mergeSketches,
+  type Sketch,
+} from "./sketch.js";
+import { vFunctionMetrics, type MetricsSummary } from "./types.js";
+
+type MetricsBucket = Doc<"metrics">["bucket"];
+
+const BUCKET_SIZES: Record<MetricsBucket, number> = {
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000,
+};
+
+export function getBucketStart(bucket: MetricsBucket, time: number): number {
+  return Math.floor(time / BUCKET_SIZES[bucket]) * BUCKET_SIZES[bucket];
+}
+
+const vSpanSample = v.object({
+  traceId: v.id("traces"),
+  functionName: v.string(),
+  endTime: v.number(),
+  duration: v.number(),
+  status: v.union(v.literal("success"), v.literal("error")),
+});
+
+export type SpanSample = Infer<typeof vSpanSample>;
+
+/**
+ * Schedules the rollup of the spans a mutation completed.
+ */
+export async function scheduleSpanMetrics(
+  ctx: MutationCtx,
+  spans: SpanSample[],
+): Promise<void> {
+  if (spans.length === 0) return;
+  await ctx.scheduler.runAfter(0, internal.metrics.recordSpans, { spans });
+}
+
+export const recordSpans = internalMutation({
+  args: { spans: v.array(vSpanSample) },
+  returns: v.null(),
+  handler: async (ctx, { spans }): Promise<void> => {
+    const weights = new Map<Id<"traces">, number>();
+    for (const span of spans) {
+      let weight = weights.get(span.traceId);
+      if (weight === undefined) {
+        weight = getSampleWeight(await ctx.db.get("traces", span.traceId));
+        weights.set(span.traceId, weight);
+      }
+      await recordSpanMetrics(ctx, span, weight);
+    }
+  },
+});
+
+/**
+ * How many calls a span of the trace stands for. An unsampled trace is only
+ * written when it is preserved, so preserved traces are counted once like
+ * every trace without head sampling, and other sampled ones 1/sampleRate
+ * times.
+ */
+function getSampleWeight(trace: Doc<"traces"> | null): number {
+  if (!trace?.headSampleRate || trace.preserve) return 1;
+  return 1 / trace.headSampleRate;
+}
+
+/**
+ * Adds a completed span to the minute and hour buckets of its function.
+ */
+async function recordSpanMetrics(
+  ctx: MutationCtx,
+  span: SpanSample,
+  weight: number,
+): Promise<void> {
+  const errors = span.status === "error" ? weight : 0;
+
+  for (const bucket of ["minute", "hour"] as const) {
+    const bucketStart = getBucketStart(bucket, span.endTime);
+    const existing = await ctx.db
+      .query("metrics")
+      .withIndex("by_function_and_bucket", (q) =>
+        q
+          .eq("functionName", span.functionName)
+          .eq("bucket", bucket)
+          .eq("bucketStart", bucketStart),
+      )
+      .unique();
+
+    if (!existing) {
+      await ctx.db.insert("metrics", {
+        functionName: span.functionName,
+        bucket,
+        bucketStart,
+        count: weight,
+        errorCount: errors,
+        totalDuration: span.duration * weight,
+        minDuration: span.duration,
+        maxDuration: span.duration,
+        sketch: addToSketch(emptySketch(), span.duration, weight),
+      });
+      continue;
+    }
+
+    await ctx.db.patch("metrics", existing._id, {
+      count: existing.count + weight,
+      errorCount: existing.errorCount + errors,
+      totalDuration: existing.totalDuration + span.duration * weight,
+      minDuration: Math.min(existing.minDuration, span.duration),
+      maxDuration: Math.max(existing.maxDuration, span.duration),
+      sketch: addToSketch(existing.sketch, span.duration, weight),
+    });
+  }
+}
+
+type Rollup = Pick<
+  Doc<"metrics">,
+  "count" | "errorCount" | "totalDuration" | "minDuration" | "maxDuration"
+> & { sketch: Sketch };
+
+function summarize(rollup: Rollup): MetricsSummary {
+  return {
+    count: rollup.count,
+    errorCount: rollup.errorCount,
+    errorRate: rollup.count ? rollup.errorCount / rollup.count : 0,
+    avgDuration: rollup.count ? rollup.totalDuration / rollup.count : 0,
+    minDuration: rollup.minDuration,
+    maxDuration: rollup.maxDuration,
+    p50: getQuantile(rollup.sketch, 0.5),
+    p95: getQuantile(rollup.sketch, 0.95),
+    p99: getQuantile(rollup.sketch, 0.99),
+  };
+}
+
+function mergeRollups(a: Rollup, b: Rollup): Rollup {
+  return {
+    count: a.count + b.count,
+    errorCount: a.errorCount + b.errorCount,
+    totalDuration: a.totalDuration + b.totalDuration,
+    minDuration: Math.min(a.minDuration, b.minDuration),
+    maxDuration: Math.max(a.maxDuration, b.maxDuration),
+    sketch: mergeSketches(a.sketch, b.sketch),
+  };
+}
+
+/**
+ * Returns the metrics of a function per bucket between `from` and `to`,
+ * along with a total over the whole range.
+ */
+export const getFunctionMetrics = query({
+  args: {
+    functionName: v.string(),
+    from: v.number(),
+    to: v.number(),
+    bucket: v.optional(metricsBucketValidator),
+  },
+  returns: vFunctionMetrics,
+  handler: async (ctx, { functionName, from, to, bucket = "minute" }) => {
+    const rollups = await ctx.db
+      .query("metrics")
+      .withIndex("by_function_and_bucket", (q) =>
+        q
+          .eq("functionName", functionName)
+          .eq("bucket", bucket)
+          .gte("bucketStart", getBucketStart(bucket, from))
+          .lt("bucketStart", to),
+      )
+      .collect();
+
+    const empty: Rollup = {
+      count: 0,
+      errorCount: 0,
+      totalDuration: 0,
+      minDuration: 0,
+      maxDuration: 0,
+      sketch: emptySketch(),
+    };
+    const total = rollups.reduce<Rollup>(
+      (sum, rollup) => (sum.count ? mergeRollups(sum, rollup) : rollup),
+      empty,
+    );
+
+    return {
+      functionName,
+      bucket,
+      total: summarize(total),
+      buckets: rollups.map((rollup) => ({
+        bucketStart: rollup.bucketStart,
+        ...summarize(rollup),
+      })),
+    };
+  },
+});
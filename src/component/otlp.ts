@@ -0,0 +1,354 @@
+/**
+ * Conversion of completed traces into the OpenTelemetry OTLP/JSON format.
+ * Kept free of Convex function definitions so it can be shared by the
+ * component and the client package.
+ */
+import type { CompleteTrace, Exception, Log, SpanWithLogs } from "./types.js";
+
+export type OtlpAnyValue =
+  | { stringValue: string }
+  | { boolValue: boolean }
+  | { intValue: string }
+  | { doubleValue: number }
+  | { arrayValue: { values: OtlpAnyValue[] } }
+  | { kvlistValue: { values: OtlpKeyValue[] } };
+
+export interface OtlpKeyValue {
+  key: string;
+  value: OtlpAnyValue;
+}
+
+export interface OtlpEvent {
+  timeUnixNano: string;
+  name: string;
+  attributes: OtlpKeyValue[];
+}
+
+export interface OtlpSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: number;
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+  attributes: OtlpKeyValue[];
+  events: OtlpEvent[];
+  status: { code: number; message?: string };
+}
+
+export interface OtlpResourceSpans {
+  resource: { attributes: OtlpKeyValue[] };
+  scopeSpans: Array<{
+    scope: { name: string; version?: string };
+    spans: OtlpSpan[];
+  }>;
+}
+
+export interface OtlpExportRequest {
+  resourceSpans: OtlpResourceSpans[];
+}
+
+export interface OtlpExportOptions {
+  /**
+   * The `service.name` resource attribute reported to the collector.
+   * @default - "convex"
+   */
+  serviceName?: string;
+
+  /**
+   * Additional resource attributes, e.g. `{ "deployment.environment": "prod" }`.
+   */
+  resourceAttributes?: Record<string, unknown>;
+}
+
+const SPAN_KIND_INTERNAL = 1;
+const SPAN_KIND_SERVER = 2;
+
+const STATUS_CODE_UNSET = 0;
+const STATUS_CODE_OK = 1;
+const STATUS_CODE_ERROR = 2;
+
+const SCOPE_NAME = "convex-tracer";
+
+/**
+ * Deterministically maps a string, e.g. a Convex document id, to a lowercase
+ * hex string of the given byte length, as required for OTLP trace and span ids.
+ */
+export function hashToHex(input: string, bytes: number): string {
+  let hex = "";
+  for (let chunk = 0; hex.length < bytes * 2; chunk++) {
+    // FNV-1a, seeded per chunk so every 4 bytes differ
+    let hash = 0x811c9dc5 ^ Math.imul(chunk + 1, 0x9e3779b1);
+    for (let i = 0; i < input.length; i++) {
+      hash ^= input.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    hex += (hash >>> 0).toString(16).padStart(8, "0");
+  }
+  return hex.slice(0, bytes * 2);
+}
+
+/**
+ * Returns the 16-byte OTLP trace id for a trace id from the component.
+ */
+export function toOtlpTraceId(traceId: string): string {
+  return hashToHex(traceId, 16);
+}
+
+/**
+ * Returns a random 16-byte OTLP trace id, for a trace that has no id from
+ * the component because it wasn't head sampled.
+ */
+export function randomOtlpTraceId(): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(16)), (byte) =>
+    byte.toString(16).padStart(2, "0"),
+  ).join("");
+}
+
+/**
+ * Returns the 8-byte OTLP span id for a span id from the component.
+ */
+export function toOtlpSpanId(spanId: string): string {
+  return hashToHex(spanId, 8);
+}
+
+/**
+ * The external parent of a trace, read from an inbound W3C `traceparent`
+ * header. Stored in the trace metadata under `traceparent`, so exported
+ * spans join the caller's trace.
+ */
+export interface TraceParent {
+  traceId: string;
+  parentSpanId: string;
+  sampled: boolean;
+}
+
+const TRACEPARENT_PATTERN =
+  /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+
+/**
+ * Parses a W3C `traceparent` header, returning null when it is missing or
+ * malformed, or uses the all-zero trace or parent id.
+ */
+export function parseTraceparent(
+  header: string | null | undefined,
+): TraceParent | null {
+  const match = TRACEPARENT_PATTERN.exec(header?.trim().toLowerCase() ?? "");
+  if (!match) return null;
+
+  const [, version, traceId, parentSpanId, flags] = match;
+  if (version === "ff") return null;
+  if (/^0+$/.test(traceId) || /^0+$/.test(parentSpanId)) return null;
+
+  return {
+    traceId,
+    parentSpanId,
+    sampled: (parseInt(flags, 16) & 1) === 1,
+  };
+}
+
+/**
+ * Formats a W3C `traceparent`/`traceresponse` header value.
+ */
+export function formatTraceparent(
+  traceId: string,
+  spanId: string,
+  sampled = true,
+): string {
+  return `00-${traceId}-${spanId}-${sampled ? "01" : "00"}`;
+}
+
+function getTraceParent(trace: CompleteTrace): TraceParent | null {
+  const traceparent = trace.metadata?.traceparent;
+  if (
+    typeof traceparent?.traceId !== "string" ||
+    typeof traceparent?.parentSpanId !== "string"
+  ) {
+    return null;
+  }
+  return traceparent as TraceParent;
+}
+
+function toNanos(ms: number): string {
+  return (BigInt(Math.round(ms)) * 1_000_000n).toString();
+}
+
+function toAnyValue(value: unknown): OtlpAnyValue | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value === "string") return { stringValue: value };
+  if (typeof value === "boolean") return { boolValue: value };
+  if (typeof value === "bigint") return { intValue: value.toString() };
+  if (typeof value === "number") {
+    return Number.isInteger(value)
+      ? { intValue: value.toString() }
+      : { doubleValue: value };
+  }
+  if (Array.isArray(value)) {
+    return {
+      arrayValue: {
+        values: value
+          .map(toAnyValue)
+          .filter((v): v is OtlpAnyValue => v !== undefined),
+      },
+    };
+  }
+  if (typeof value === "object") {
+    return { kvlistValue: { values: toAttributes(value) } };
+  }
+  return { stringValue: String(value) };
+}
+
+function toAttributes(record: object | undefined, prefix = ""): OtlpKeyValue[] {
+  if (!record) return [];
+  const attributes: OtlpKeyValue[] = [];
+  for (const [key, raw] of Object.entries(record)) {
+    const value = toAnyValue(raw);
+    if (value) attributes.push({ key: `${prefix}${key}`, value });
+  }
+  return attributes;
+}
+
+function toEvent(log: Log): OtlpEvent {
+  return {
+    timeUnixNano: toNanos(log.timestamp),
+    name: log.message,
+    attributes: [
+      { key: "log.severity", value: { stringValue: log.severity } },
+      ...toAttributes(log.metadata),
+    ],
+  };
+}
+
+function toExceptionEvent(exception: Exception): OtlpEvent {
+  return {
+    timeUnixNano: toNanos(exception.timestamp),
+    name: "exception",
+    attributes: toAttributes({
+      "exception.type": exception.name,
+      "exception.message": exception.message,
+      "exception.stacktrace": exception.stack,
+      "exception.escaped": !exception.handled,
+      "convex.error.data": exception.data,
+    }),
+  };
+}
+
+function toStatus(span: SpanWithLogs): OtlpSpan["status"] {
+  if (span.status === "success") return { code: STATUS_CODE_OK };
+  if (span.status === "error") {
+    return { code: STATUS_CODE_ERROR, message: span.error };
+  }
+  return { code: STATUS_CODE_UNSET };
+}
+
+function toOtlpSpan(
+  traceId: string,
+  span: SpanWithLogs,
+  traceParent: TraceParent | null,
+): OtlpSpan {
+  const endTime = span.endTime ?? span.startTime + (span.duration ?? 0);
+
+  return {
+    traceId,
+    spanId: toOtlpSpanId(span._id),
+    parentSpanId: span.parentSpanId
+      ? toOtlpSpanId(span.parentSpanId)
+      : traceParent?.parentSpanId,
+    name: span.spanName,
+    kind: span.parentSpanId ? SPAN_KIND_INTERNAL : SPAN_KIND_SERVER,
+    startTimeUnixNano: toNanos(span.startTime),
+    endTimeUnixNano: toNanos(endTime),
+    attributes: [
+      { key: "convex.span_id", value: { stringValue: span._id } },
+      { key: "convex.source", value: { stringValue: span.source } },
+      ...(span.functionName
+        ? [
+            {
+              key: "convex.function_name",
+              value: { stringValue: span.functionName },
+            },
+          ]
+        : []),
+      ...(span.duration !== undefined
+        ? [
+            {
+              key: "convex.duration_ms",
+              value: { intValue: Math.round(span.duration).toString() },
+            },
+          ]
+        : []),
+      ...toAttributes(span.metadata),
+    ],
+    events: [
+      ...(span.logs ?? []).map(toEvent),
+      ...(span.exceptions ?? []).map(toExceptionEvent),
+    ],
+    status: toStatus(span),
+  };
+}
+
+function flattenSpans(spans: SpanWithLogs[]): SpanWithLogs[] {
+  return spans.flatMap((span) => [
+    span,
+    ...flattenSpans((span.children ?? []) as SpanWithLogs[]),
+  ]);
+}
+
+/**
+ * Converts a trace returned by `lib.getTrace` into OTLP/JSON `ResourceSpans`.
+ * Logs become span events and metadata becomes span attributes.
+ * @example
+ * ```ts
+ * const trace = await tracer.getTrace(ctx, traceId);
+ * const body = { resourceSpans: toOtlpResourceSpans(trace!) };
+ * ```
+ */
+export function toOtlpResourceSpans(
+  trace: CompleteTrace,
+  options: OtlpExportOptions = {},
+): OtlpResourceSpans {
+  const traceParent = getTraceParent(trace);
+  const traceId = traceParent?.traceId ?? toOtlpTraceId(trace._id);
+
+  return {
+    resource: {
+      attributes: [
+        {
+          key: "service.name",
+          value: { stringValue: options.serviceName ?? "convex" },
+        },
+        { key: "convex.trace_id", value: { stringValue: trace._id } },
+        ...(trace.userId
+          ? [{ key: "enduser.id", value: { stringValue: trace.userId } }]
+          : []),
+        ...(trace.tenantId
+          ? [{ key: "tenant.id", value: { stringValue: trace.tenantId } }]
+          : []),
+        ...toAttributes(trace.metadata, "convex.trace.metadata."),
+        ...toAttributes(options.resourceAttributes),
+      ],
+    },
+    scopeSpans: [
+      {
+        scope: { name: SCOPE_NAME },
+        spans: flattenSpans(trace.spans).map((span) =>
+          toOtlpSpan(traceId, span, traceParent),
+        ),
+      },
+    ],
+  };
+}
+
+/**
+ * Builds a complete OTLP/JSON export request body for one or more traces,
+ * ready to be POSTed to a collector's `/v1/traces` endpoint.
+ */
+export function toOtlpExportRequest(
+  traces: CompleteTrace[],
+  options: OtlpExportOptions = {},
+): OtlpExportRequest {
+  return {
+    resourceSpans: traces.map((trace) => toOtlpResourceSpans(trace, options)),
+  };
+}
@@ -0,0 +1,94 @@
+/// <reference types="vite/client" />
+import { describe, expect, test } from "vitest";
+import { api } from "./_generated/api.js";
+import { isSampled, matchesRule, resolveSampleRate } from "./sampling.js";
+import { initConvexTest } from "./setup.test.js";
+
+const facts = {
+  functionName: "createOrder",
+  status: "success" as const,
+  duration: 2500,
+  userId: "user_1",
+  metadata: { plan: "pro" },
+};
+
+describe("sampling rules", () => {
+  test("match on every condition they set", () => {
+    expect(matchesRule({ sampleRate: 1 }, facts)).toBe(true);
+    expect(
+      matchesRule(
+        {
+          functionName: ["createOrder", "refund"],
+          status: "success",
+          minDuration: 2000,
+          userId: "user_1",
+          metadata: { plan: "pro" },
+          sampleRate: 1,
+        },
+        facts,
+      ),
+    ).toBe(true);
+    expect(matchesRule({ status: "error", sampleRate: 1 }, facts)).toBe(false);
+    expect(matchesRule({ maxDuration: 100, sampleRate: 1 }, facts)).toBe(false);
+    expect(
+      matchesRule({ metadata: { plan: "free" }, sampleRate: 1 }, facts),
+    ).toBe(false);
+  });
+
+  test("first matching rule wins, otherwise the default rate", () => {
+    const rules = [
+      { functionName: "refund", sampleRate: 0 },
+      { minDuration: 2000, sampleRate: 1 },
+      { sampleRate: 0.5 },
+    ];
+    expect(resolveSampleRate(rules, facts, 0.1)).toBe(1);
+    expect(resolveSampleRate(rules.slice(0, 1), facts, 0.1)).toBe(0.1);
+  });
+
+  test("sampling decisions are deterministic per trace id", () => {
+    const ids = Array.from({ length: 1000 }, (_, i) => `trace_${i}`);
+    const kept = ids.filter((id) => isSampled(id, 0.25));
+
+    expect(ids.filter((id) => isSampled(id, 0.25))).toEqual(kept);
+    expect(kept.length).toBeGreaterThan(150);
+    expect(kept.length).toBeLessThan(350);
+    expect(ids.every((id) => isSampled(id, 1))).toBe(true);
+    expect(ids.some((id) => isSampled(id, 0))).toBe(false);
+  });
+
+  test("are applied when the trace completes", async () => {
+    const t = initConvexTest();
+    const traceId = await t.mutation(api.lib.createTrace, {
+      status: "pending",
+      sampleRate: 0,
+      source: "backend",
+      userId: "anonymous",
+    });
+    const spanId = await t.mutation(api.lib.createSpan, {
+      traceId,
+      span: {
+        spanName: "createOrder",
+        functionName: "createOrder",
+        source: "backend",
+        startTime: 1000,
+        status: "pending",
+      },
+    });
+    await t.mutation(api.lib.completeSpan, {
+      spanId,
+      endTime: 4000,
+      duration: 3000,
+      status: "success",
+    });
+    await t.mutation(api.lib.updateTraceStatus, {
+      traceId,
+      status: "success",
+      samplingRules: [{ minDuration: 2000, sampleRate: 1 }],
+    });
+
+    await t.mutation(api.lib.cleanupTrace, { traceId });
+
+    const trace = await t.query(api.lib.getTrace, { traceId });
+    expect(trace?.sampleRate).toBe(1);
+  });
+});
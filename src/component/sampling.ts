@@ -0,0 +1,68 @@
+import { toOtlpTraceId } from "./otlp";
+import type { SamplingRule } from "./types";
+
+/**
+ * What a sampling rule can be matched against once a trace has completed.
+ */
+export interface SamplingFacts {
+  functionName?: string;
+  status: "success" | "error";
+  duration?: number;
+  userId?: string;
+  tenantId?: string;
+  metadata: Record<string, any>;
+}
+
+function oneOf(expected: string | string[], actual: string | undefined) {
+  if (actual === undefined) return false;
+  return Array.isArray(expected)
+    ? expected.includes(actual)
+    : expected === actual;
+}
+
+export function matchesRule(rule: SamplingRule, facts: SamplingFacts): boolean {
+  if (rule.functionName && !oneOf(rule.functionName, facts.functionName)) {
+    return false;
+  }
+  if (rule.userId && !oneOf(rule.userId, facts.userId)) return false;
+  if (rule.tenantId && !oneOf(rule.tenantId, facts.tenantId)) return false;
+  if (rule.status && rule.status !== facts.status) return false;
+
+  if (rule.minDuration !== undefined || rule.maxDuration !== undefined) {
+    if (facts.duration === undefined) return false;
+    if (rule.minDuration !== undefined && facts.duration < rule.minDuration) {
+      return false;
+    }
+    if (rule.maxDuration !== undefined && facts.duration > rule.maxDuration) {
+      return false;
+    }
+  }
+
+  return Object.entries(rule.metadata ?? {}).every(
+    ([key, value]) => facts.metadata[key] === value,
+  );
+}
+
+/**
+ * Returns the sample rate of the first rule matching the trace,
+ * or `defaultRate` when none match.
+ */
+export function resolveSampleRate(
+  rules: SamplingRule[],
+  facts: SamplingFacts,
+  defaultRate: number,
+): number {
+  return (
+    rules.find((rule) => matchesRule(rule, facts))?.sampleRate ?? defaultRate
+  );
+}
+
+/**
+ * Deterministically decides whether a trace is kept at `sampleRate`.
+ * The trace id is hashed to a number in [0, 1), so the same trace always
+ * gets the same decision.
+ */
+export function isSampled(traceId: string, sampleRate: number): boolean {
+  const score = parseInt(toOtlpTraceId(traceId).slice(0, 8), 16) / 2 ** 32;
+  return score < sampleRate;
+}
@@ -18,22 +18,66 @@ export const severityValidator = v.union(
   v.literal("error"),
 );
 
+export const deliveryStatusValidator = v.union(
+  v.literal("pending"),
+  v.literal("dead"),
+);
+
+export const tagValueValidator = v.union(v.string(), v.number(), v.boolean());
+
+export const metricsBucketValidator = v.union(
+  v.literal("minute"),
+  v.literal("hour"),
+);
+
+export const sketchValidator = v.object({
+  zeroCount: v.number(),
+  bins: v.record(v.string(), v.number()),
+});
+
+export const exceptionCauseValidator = v.object({
+  name: v.string(),
+  message: v.string(),
+  stack: v.optional(v.string()),
+});
+
+export const exceptionValidator = v.object({
+  name: v.string(),
+  message: v.string(),
+  stack: v.optional(v.string()),
+  data: v.optional(v.any()),
+  cause: v.optional(v.array(exceptionCauseValidator)),
+  timestamp: v.number(),
+  handled: v.boolean(),
+});
+
 export default defineSchema({
   traces: defineTable({
     status: statusValidator,
     sampleRate: v.number(),
+    // The head sampling rate of a trace that was sampled when it started,
+    // which its spans are weighted by in function metrics
+    headSampleRate: v.optional(v.number()),
     preserve: v.optional(v.boolean()),
     updatedAt: v.number(),
     metadata: v.optional(v.record(v.string(), v.any())),
     functionName: v.optional(v.string()),
     userId: v.optional(v.string()),
+    tenantId: v.optional(v.string()),
+    identity: v.optional(v.record(v.string(), v.any())),
+    duration: v.optional(v.number()),
+    spanCount: v.optional(v.number()),
+    logCount: v.optional(v.number()),
+    errorCount: v.optional(v.number()),
   })
     .index("by_status", ["status"])
     .index("by_userId", ["userId"])
     .index("by_status_and_userId", ["status", "userId"])
+    .index("by_tenantId", ["tenantId"])
+    .index("by_status_and_tenantId", ["status", "tenantId"])
     .searchIndex("by_function_name", {
       searchField: "functionName",
-      filterFields: ["status", "userId"],
+      filterFields: ["status", "userId", "tenantId"],
     }),
 
   spans: defineTable({
@@ -49,6 +93,7 @@ export default defineSchema({
     args: v.optional(v.any()),
     result: v.optional(v.any()),
     error: v.optional(v.string()),
+    exceptions: v.optional(v.array(exceptionValidator)),
     metadata: v.optional(v.record(v.string(), v.any())),
   })
     .index("by_traceId", ["traceId"])
@@ -64,4 +109,43 @@ export default defineSchema({
   })
     .index("by_spanId", ["spanId"])
     .index("by_severity", ["severity"]),
+
+  tags: defineTable({
+    traceId: v.id("traces"),
+    key: v.string(),
+    value: tagValueValidator,
+  })
+    .index("by_key_and_value", ["key", "value"])
+    .index("by_traceId_and_key", ["traceId", "key"]),
+
+  exporters: defineTable({
+    endpoint: v.string(),
+    headers: v.optional(v.record(v.string(), v.string())),
+    serviceName: v.optional(v.string()),
+    maxAttempts: v.number(),
+    backoffMs: v.number(),
+  }).index("by_endpoint", ["endpoint"]),
+
+  deliveries: defineTable({
+    traceId: v.id("traces"),
+    exporterId: v.id("exporters"),
+    status: deliveryStatusValidator,
+    attempts: v.number(),
+    nextAttemptAt: v.optional(v.number()),
+    lastError: v.optional(v.string()),
+  })
+    .index("by_status", ["status"])
+    .index("by_traceId", ["traceId"]),
+
+  metrics: defineTable({
+    functionName: v.string(),
+    bucket: metricsBucketValidator,
+    bucketStart: v.number(),
+    count: v.number(),
+    errorCount: v.number(),
+    totalDuration: v.number(),
+    minDuration: v.number(),
+    maxDuration: v.number(),
+    sketch: sketchValidator,
+  }).index("by_function_and_bucket", ["functionName", "bucket", "bucketStart"]),
 });
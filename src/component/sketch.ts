@@ -0,0 +1,60 @@
+/**
+ * A mergeable quantile sketch for span durations, in the style of DDSketch:
+ * values are counted in logarithmic bins, so any quantile is returned within
+ * RELATIVE_ACCURACY of the true value and two sketches merge by adding bins.
+ */
+import type { Infer } from "convex/values";
+import type { sketchValidator } from "./schema";
+
+export type Sketch = Infer<typeof sketchValidator>;
+
+const RELATIVE_ACCURACY = 0.01;
+const GAMMA = (1 + RELATIVE_ACCURACY) / (1 - RELATIVE_ACCURACY);
+const LOG_GAMMA = Math.log(GAMMA);
+
+export function emptySketch(): Sketch {
+  return { zeroCount: 0, bins: {} };
+}
+
+/**
+ * Adds a value, counted `weight` times, e.g. 1/sampleRate for the span of a
+ * sampled trace.
+ */
+export function addToSketch(sketch: Sketch, value: number, weight = 1): Sketch {
+  if (value <= 0) return { ...sketch, zeroCount: sketch.zeroCount + weight };
+
+  const key = String(Math.ceil(Math.log(value) / LOG_GAMMA));
+  return {
+    ...sketch,
+    bins: { ...sketch.bins, [key]: (sketch.bins[key] ?? 0) + weight },
+  };
+}
+
+export function mergeSketches(a: Sketch, b: Sketch): Sketch {
+  const bins = { ...a.bins };
+  for (const [key, count] of Object.entries(b.bins)) {
+    bins[key] = (bins[key] ?? 0) + count;
+  }
+  return { zeroCount: a.zeroCount + b.zeroCount, bins };
+}
+
+/**
+ * Returns the value at quantile `q` (0-1), or undefined for an empty sketch.
+ */
+export function getQuantile(sketch: Sketch, q: number): number | undefined {
+  const bins = Object.entries(sketch.bins)
+    .map(([key, count]) => [Number(key), count] as const)
+    .sort(([a], [b]) => a - b);
+  const total = bins.reduce((sum, [, count]) => sum + count, sketch.zeroCount);
+  if (total === 0) return undefined;
+
+  const rank = q * (total - 1);
+  let seen = sketch.zeroCount;
+  if (rank < seen) return 0;
+
+  for (const [key, count] of bins) {
+    seen += count;
+    if (rank < seen) return (2 * GAMMA ** key) / (GAMMA + 1);
+  }
+  return (2 * GAMMA ** bins[bins.length - 1][0]) / (GAMMA + 1);
+}
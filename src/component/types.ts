@@ -1,5 +1,10 @@
 import { v, type Infer } from "convex/values";
-import schema from "./schema";
+import schema, {
+  exceptionValidator,
+  metricsBucketValidator,
+  severityValidator,
+  tagValueValidator,
+} from "./schema";
 
 export const vTrace = schema.tables.traces.validator.extend({
   _id: v.string(),
@@ -31,8 +36,113 @@ export const vCompleteTrace = vTrace.extend({
   spans: v.array(vSpanWithLogs),
 });
 
+export const vDelivery = schema.tables.deliveries.validator
+  .omit("traceId")
+  .omit("exporterId")
+  .extend({
+    _id: v.string(),
+    traceId: v.string(),
+    endpoint: v.string(),
+    _creationTime: v.number(),
+  });
+
+export const vExporterConfig = v.object({
+  endpoint: v.string(),
+  headers: v.optional(v.record(v.string(), v.string())),
+  serviceName: v.optional(v.string()),
+  maxAttempts: v.optional(v.number()),
+  backoffMs: v.optional(v.number()),
+});
+
+const vOneOrMany = v.union(v.string(), v.array(v.string()));
+
+/**
+ * A sampling rule matches a completed trace when every condition it sets
+ * holds. The first matching rule decides the trace's sample rate.
+ */
+export const vSamplingRule = v.object({
+  functionName: v.optional(vOneOrMany),
+  status: v.optional(v.union(v.literal("success"), v.literal("error"))),
+  minDuration: v.optional(v.number()),
+  maxDuration: v.optional(v.number()),
+  userId: v.optional(vOneOrMany),
+  tenantId: v.optional(vOneOrMany),
+  metadata: v.optional(v.record(v.string(), v.any())),
+  sampleRate: v.number(),
+});
+
+const vMetricsSummary = v.object({
+  count: v.number(),
+  errorCount: v.number(),
+  errorRate: v.number(),
+  avgDuration: v.number(),
+  minDuration: v.number(),
+  maxDuration: v.number(),
+  p50: v.optional(v.number()),
+  p95: v.optional(v.number()),
+  p99: v.optional(v.number()),
+});
+
+export const vFunctionMetrics = v.object({
+  functionName: v.string(),
+  bucket: metricsBucketValidator,
+  total: vMetricsSummary,
+  buckets: v.array(vMetricsSummary.extend({ bucketStart: v.number() })),
+});
+
+export const vSpanSnapshot = v.object({
+  id: v.string(),
+  parentId: v.optional(v.string()),
+  spanName: v.string(),
+  functionName: v.optional(v.string()),
+  startTime: v.number(),
+  endTime: v.number(),
+  duration: v.number(),
+  status: v.union(v.literal("success"), v.literal("error")),
+  args: v.optional(v.any()),
+  result: v.optional(v.any()),
+  error: v.optional(v.string()),
+  exceptions: v.optional(v.array(exceptionValidator)),
+  metadata: v.optional(v.record(v.string(), v.any())),
+  logs: v.array(
+    v.object({
+      timestamp: v.number(),
+      severity: severityValidator,
+      message: v.string(),
+      metadata: v.optional(v.record(v.string(), v.any())),
+    }),
+  ),
+});
+
+export const vTag = v.object({
+  key: v.string(),
+  value: tagValueValidator,
+});
+
+/**
+ * A completed trace recorded in memory, e.g. by a reactive traced query,
+ * that is persisted later with `importTrace`. Parents precede their children.
+ */
+export const vTraceSnapshot = v.object({
+  sampleRate: v.number(),
+  preserve: v.optional(v.boolean()),
+  metadata: v.optional(v.record(v.string(), v.any())),
+  tags: v.optional(v.array(vTag)),
+  spans: v.array(vSpanSnapshot),
+  signature: v.optional(v.string()),
+});
+
 export type Trace = Infer<typeof vTrace>;
 export type Span = Infer<typeof vSpan>;
 export type Log = Infer<typeof vLog>;
 export type SpanWithLogs = Infer<typeof vSpanWithLogs>;
 export type CompleteTrace = Infer<typeof vCompleteTrace>;
+export type Delivery = Infer<typeof vDelivery>;
+export type ExporterConfig = Infer<typeof vExporterConfig>;
+export type SamplingRule = Infer<typeof vSamplingRule>;
+export type MetricsSummary = Infer<typeof vMetricsSummary>;
+export type FunctionMetrics = Infer<typeof vFunctionMetrics>;
+export type SpanSnapshot = Infer<typeof vSpanSnapshot>;
+export type Exception = Infer<typeof exceptionValidator>;
+export type TraceSnapshot = Infer<typeof vTraceSnapshot>;
+export type Tag = Infer<typeof vTag>;
@@ -1,18 +1,124 @@
-import { useAction, useMutation } from "convex/react";
+import {
+  useAction,
+  useMutation,
+  usePaginatedQuery,
+  useQuery,
+  type PaginatedQueryArgs,
+  type PaginatedQueryReference,
+  type UsePaginatedQueryReturnType,
+} from "convex/react";
 
-import type { FunctionReference, FunctionReturnType } from "convex/server";
+import {
+  getFunctionName,
+  type FunctionReference,
+  type FunctionReturnType,
+} from "convex/server";
+import { useCallback, useMemo } from "react";
+import { attachTraceId } from "../client/exceptions";
+import type { ReactiveTracedResult, TraceContext } from "../client/types";
+import {
+  useImportQueryTrace,
+  useRecordFailedCall,
+  useWithTraceContext,
+} from "./tracer-provider";
 import type { EmptyObject, OptionalTracedArgs } from "./types";
 
+export { TracerProvider, useTrace } from "./tracer-provider";
+export type { FrontendSpanAPI, FrontendTracingApi } from "./types";
+
+/**
+ * Subscribes to a reactive traced query (see `reactiveTracedQuery`) and
+ * persists the trace recorded for every result it receives. `traceId` is
+ * set once the trace is persisted, which needs a TracerProvider.
+ * Returns undefined while loading.
+ * @example
+ * ```tsx
+ * const orders = useTracedQuery(api.shop.listOrders, { customerId });
+ * if (orders?.success) console.log(orders.data);
+ * ```
+ */
+export function useTracedQuery<TQuery extends FunctionReference<"query">>(
+  fnRef: TQuery,
+  args: TQuery["_args"] | "skip",
+):
+  | (Omit<FunctionReturnType<TQuery>, "trace"> & { traceId?: string })
+  | undefined;
+/**
+ * Returns a function that runs a traced query (see `tracedQuery`), which is
+ * registered as a mutation.
+ */
 export function useTracedQuery<TQuery extends FunctionReference<"mutation">>(
   fnRef: TQuery,
 ): OptionalTracedArgs<TQuery> extends [args?: EmptyObject]
   ? (args?: EmptyObject) => Promise<FunctionReturnType<TQuery>>
   : OptionalTracedArgs<TQuery> extends [args: infer Args]
     ? (args: Args) => Promise<FunctionReturnType<TQuery>>
-    : never {
-  return useMutation(fnRef) as any;
+    : never;
+export function useTracedQuery(
+  fnRef: FunctionReference<"query" | "mutation">,
+  args?: Record<string, any> | "skip",
+): any {
+  // The reactive form always passes args, the mutation form never does.
+  const reactive = args !== undefined;
+
+  const callTracedQuery = useTracedMutationCall(
+    fnRef as FunctionReference<"mutation">,
+  );
+
+  const result = useQuery(
+    fnRef as FunctionReference<"query">,
+    reactive ? args : "skip",
+  ) as ReactiveTracedResult<unknown> | undefined;
+  const traceId = useImportQueryTrace(result?.trace);
+
+  const data = useMemo(() => {
+    if (!result) return undefined;
+    const { trace: _trace, ...rest } = result;
+    return { ...rest, traceId };
+  }, [result, traceId]);
+
+  return reactive ? data : callTracedQuery;
 }
 
+/**
+ * Calls a traced mutation with the active frontend span as its parent.
+ * A mutation that throws rolls back the trace it wrote, so the failure is
+ * recorded from the browser instead, and a `traceId` in its `ConvexError`
+ * data is pointed at the recorded trace.
+ */
+function useTracedMutationCall(fnRef: FunctionReference<"mutation">) {
+  const mutation = useMutation(fnRef);
+  const withTraceContext = useWithTraceContext();
+  const recordFailedCall = useRecordFailedCall();
+
+  return useCallback(
+    async (args?: Record<string, any>) => {
+      const argsWithTrace = withTraceContext(args ?? {});
+      const startTime = Date.now();
+      try {
+        return await mutation(argsWithTrace);
+      } catch (error) {
+        const parent = argsWithTrace.__traceContext as TraceContext | undefined;
+        const recorded = await recordFailedCall(
+          getFunctionName(fnRef),
+          parent,
+          startTime,
+          error,
+        );
+        // Without a parent the trace the mutation started was rolled back.
+        if (recorded && !parent) attachTraceId(error, recorded.traceId);
+        throw error;
+      }
+    },
+    [fnRef, mutation, withTraceContext, recordFailedCall],
+  );
+}
+
+/**
+ * Returns a function that runs a traced mutation. Its result follows the
+ * mutation's `resultMode`: a `TracedResult` envelope, or the handler's value
+ * with errors, including `ConvexError` data, rethrown.
+ */
 export function useTracedMutation<
   TMutation extends FunctionReference<"mutation">,
 >(
@@ -22,7 +128,7 @@ export function useTracedMutation<
   : OptionalTracedArgs<TMutation> extends [args: infer Args]
     ? (args: Args) => Promise<FunctionReturnType<TMutation>>
     : never {
-  return useMutation(fnRef) as any;
+  return useTracedMutationCall(fnRef) as any;
 }
 
 export function useTracedAction<TAction extends FunctionReference<"action">>(
@@ -32,5 +138,32 @@ export function useTracedAction<TAction extends FunctionReference<"action">>(
   : OptionalTracedArgs<TAction> extends [args: infer Args]
     ? (args: Args) => Promise<FunctionReturnType<TAction>>
     : never {
-  return useAction(fnRef) as any;
+  const action = useAction(fnRef as FunctionReference<"action">);
+  const withTraceContext = useWithTraceContext();
+
+  return useCallback(
+    (args?: Record<string, any>) => action(withTraceContext(args ?? {})),
+    [action, withTraceContext],
+  ) as any;
+}
+
+/**
+ * Subscribes to a paginated list of traces, e.g. a query that returns
+ * `tracer.listTracesPaginated` or `tracer.searchTracesPaginated`.
+ * @example
+ * ```tsx
+ * const { results, status, loadMore } = usePaginatedTraces(
+ *   api.tracer.listTracesPaginated,
+ *   { status: "error" },
+ * );
+ * ```
+ */
+export function usePaginatedTraces<Query extends PaginatedQueryReference>(
+  query: Query,
+  args: PaginatedQueryArgs<Query> | "skip",
+  options: { initialNumItems?: number } = {},
+): UsePaginatedQueryReturnType<Query> {
+  return usePaginatedQuery(query, args, {
+    initialNumItems: options.initialNumItems ?? 20,
+  });
 }
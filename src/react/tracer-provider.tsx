@@ -0,0 +1,325 @@
+import { useMutation } from "convex/react";
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type ReactNode,
+} from "react";
+
+import { toException } from "../client/exceptions";
+import type { FrontendSpanFinish, TraceContext } from "../client/types";
+import type { TraceSnapshot } from "../component/types";
+import type { FrontendSpanAPI, FrontendTracingApi } from "./types";
+
+type Severity = "info" | "warn" | "error";
+
+interface TracerContextValue {
+  runSpan<T>(
+    spanName: string,
+    parent: TraceContext | undefined,
+    fn: (span: FrontendSpanAPI) => Promise<T>,
+  ): Promise<T>;
+  activeContext(): TraceContext | undefined;
+  importQueryTrace(snapshot: TraceSnapshot): Promise<string | undefined>;
+  recordFailedCall(
+    functionName: string,
+    parent: TraceContext | undefined,
+    startTime: number,
+    error: unknown,
+  ): Promise<TraceContext | undefined>;
+}
+
+interface ActiveSpan {
+  context: TraceContext;
+  parent: TraceContext | undefined;
+}
+
+/**
+ * Returns the innermost running span when every running span is nested in
+ * the one started before it. Spans from overlapping `trace()` calls don't
+ * form one chain, and nesting a call under either of them would be a guess.
+ */
+function innermostSpan(spans: ActiveSpan[]): TraceContext | undefined {
+  for (let i = 1; i < spans.length; i++) {
+    if (spans[i].parent?.spanId !== spans[i - 1].context.spanId) {
+      return undefined;
+    }
+  }
+  return spans[spans.length - 1]?.context;
+}
+
+const TracerContext = createContext<TracerContextValue | null>(null);
+
+const noOpSpan: FrontendSpanAPI = {
+  context: undefined,
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+  updateMetadata: () => {},
+  withSpan: async (_spanName, fn) => await fn(noOpSpan),
+};
+
+/**
+ * Records spans that happen in the browser and nests the backend spans of
+ * `useTracedQuery`, `useTracedMutation` and `useTracedAction` calls under
+ * the span that is running when they are called.
+ * @example
+ * ```tsx
+ * <ConvexProvider client={convex}>
+ *   <TracerProvider api={api.tracer}>
+ *     <App />
+ *   </TracerProvider>
+ * </ConvexProvider>
+ * ```
+ */
+export function TracerProvider({
+  api,
+  children,
+}: {
+  api: FrontendTracingApi;
+  children: ReactNode;
+}) {
+  const startSpan = useMutation(api.startFrontendSpan);
+  const finishSpan = useMutation(api.finishFrontendSpan);
+  const importTrace = useMutation(api.importQueryTrace);
+  const activeSpans = useRef<ActiveSpan[]>([]);
+
+  const value = useMemo<TracerContextValue>(() => {
+    const runSpan = async <T,>(
+      spanName: string,
+      parent: TraceContext | undefined,
+      fn: (span: FrontendSpanAPI) => Promise<T>,
+    ): Promise<T> => {
+      const startTime = Date.now();
+
+      let context: TraceContext;
+      try {
+        context = await startSpan({
+          name: spanName,
+          startTime,
+          parent,
+        });
+      } catch (err) {
+        console.error("[Tracer] Failed to start frontend span:", err);
+        return await fn(noOpSpan);
+      }
+
+      const logs: NonNullable<FrontendSpanFinish["logs"]> = [];
+      let metadata: Record<string, any> | undefined;
+
+      const log =
+        (severity: Severity) =>
+        (message: string, meta?: Record<string, any>) => {
+          logs.push({
+            timestamp: Date.now(),
+            severity,
+            message,
+            metadata: meta,
+          });
+        };
+
+      const span: FrontendSpanAPI = {
+        context,
+        info: log("info"),
+        warn: log("warn"),
+        error: log("error"),
+        updateMetadata: (meta) => {
+          metadata = { ...metadata, ...meta };
+        },
+        withSpan: (childName, childFn) => runSpan(childName, context, childFn),
+      };
+
+      const finish = async (
+        completion: Pick<FrontendSpanFinish, "status" | "error" | "exception">,
+      ) => {
+        const endTime = Date.now();
+        await finishSpan({
+          context,
+          endTime,
+          duration: endTime - startTime,
+          logs,
+          metadata,
+          ...completion,
+        }).catch((err) =>
+          console.error("[Tracer] Failed to finish frontend span:", err),
+        );
+      };
+
+      const active: ActiveSpan = { context, parent };
+      activeSpans.current.push(active);
+      try {
+        const result = await fn(span);
+        await finish({ status: "success" });
+        return result;
+      } catch (error) {
+        await finish({
+          status: "error",
+          error: error instanceof Error ? error.message : String(error),
+          exception: toException(error, false),
+        });
+        throw error;
+      } finally {
+        const index = activeSpans.current.lastIndexOf(active);
+        if (index !== -1) activeSpans.current.splice(index, 1);
+      }
+    };
+
+    const importQueryTrace = async (snapshot: TraceSnapshot) => {
+      try {
+        return (await importTrace({ snapshot })) ?? undefined;
+      } catch (err) {
+        console.error("[Tracer] Failed to import query trace:", err);
+        return undefined;
+      }
+    };
+
+    const recordFailedCall = async (
+      functionName: string,
+      parent: TraceContext | undefined,
+      startTime: number,
+      error: unknown,
+    ) => {
+      try {
+        const context = await startSpan({
+          name: functionName,
+          startTime,
+          parent,
+        });
+        const endTime = Date.now();
+        await finishSpan({
+          context,
+          endTime,
+          duration: endTime - startTime,
+          status: "error",
+          error: error instanceof Error ? error.message : String(error),
+          exception: toException(error, false),
+        });
+        return context;
+      } catch (err) {
+        console.error("[Tracer] Failed to record failed call:", err);
+        return undefined;
+      }
+    };
+
+    return {
+      runSpan,
+      activeContext: () => innermostSpan(activeSpans.current),
+      importQueryTrace,
+      recordFailedCall,
+    };
+  }, [startSpan, finishSpan, importTrace]);
+
+  return (
+    <TracerContext.Provider value={value}>{children}</TracerContext.Provider>
+  );
+}
+
+/**
+ * Starts traces from the browser, e.g. around a user interaction.
+ * Traced backend calls made while the callback runs become child spans.
+ * @example
+ * ```tsx
+ * const { trace } = useTrace();
+ * const checkout = useTracedMutation(api.orders.checkout);
+ *
+ * const onClick = () =>
+ *   trace("checkout-click", async (span) => {
+ *     span.info("Checkout clicked", { items: cart.length });
+ *     await checkout({ cartId });
+ *   });
+ * ```
+ */
+export function useTrace() {
+  const tracer = useContext(TracerContext);
+  if (!tracer) {
+    throw new Error("useTrace must be used within a TracerProvider");
+  }
+
+  return useMemo(
+    () => ({
+      /**
+       * Runs `fn` inside the root span of a new frontend trace.
+       */
+      trace: <T,>(
+        spanName: string,
+        fn: (span: FrontendSpanAPI) => Promise<T>,
+      ): Promise<T> => tracer.runSpan(spanName, undefined, fn),
+      /**
+       * The context of the innermost frontend span that is running, if any.
+       * Undefined while spans of overlapping `trace()` calls are running.
+       */
+      getTraceContext: (): TraceContext | undefined => tracer.activeContext(),
+    }),
+    [tracer],
+  );
+}
+
+/**
+ * Returns a function that adds the active frontend span as `__traceContext`
+ * to the arguments of a traced function, unless one was passed explicitly.
+ */
+export function useWithTraceContext() {
+  const tracer = useContext(TracerContext);
+
+  return useCallback(
+    <Args extends Record<string, any>>(args: Args) => {
+      const traceContext = tracer?.activeContext();
+      if (!traceContext || args.__traceContext) return args;
+      return { ...args, __traceContext: traceContext };
+    },
+    [tracer],
+  );
+}
+
+/**
+ * Persists the trace returned by a reactive traced query once per result
+ * and returns the id of the last trace imported.
+ * Does nothing outside of a TracerProvider.
+ */
+export function useImportQueryTrace(
+  snapshot: TraceSnapshot | undefined,
+): string | undefined {
+  const tracer = useContext(TracerContext);
+  const imported = useRef<TraceSnapshot | undefined>(undefined);
+  const [traceId, setTraceId] = useState<string | undefined>(undefined);
+
+  useEffect(() => {
+    if (!tracer || !snapshot || imported.current === snapshot) return;
+    imported.current = snapshot;
+    void tracer.importQueryTrace(snapshot).then((id) => {
+      if (imported.current === snapshot) setTraceId(id);
+    });
+  }, [tracer, snapshot]);
+
+  return traceId;
+}
+
+/**
+ * Returns a function that records a span for a traced mutation that threw,
+ * since the trace it wrote was rolled back with its transaction. Resolves to
+ * the recorded span's context, or undefined outside of a TracerProvider.
+ */
+export function useRecordFailedCall() {
+  const tracer = useContext(TracerContext);
+
+  return useCallback(
+    async (
+      functionName: string,
+      parent: TraceContext | undefined,
+      startTime: number,
+      error: unknown,
+    ) => {
+      return await tracer?.recordFailedCall(
+        functionName,
+        parent,
+        startTime,
+        error,
+      );
+    },
+    [tracer],
+  );
+}
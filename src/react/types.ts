@@ -1,4 +1,11 @@
-import type { AnyFunctionReference } from "../client/types";
+import type { FunctionReference } from "convex/server";
+import type { TraceSnapshot } from "../component/types";
+import type {
+  AnyFunctionReference,
+  FrontendSpanFinish,
+  FrontendSpanStart,
+  TraceContext,
+} from "../client/types";
 
 export type EmptyObject = Record<string, never>;
 
@@ -13,3 +20,44 @@ export type OptionalTracedArgs<FuncRef extends AnyFunctionReference> =
   keyof OmitTraceContext<FuncRef["_args"]> extends never
     ? [args?: EmptyObject]
     : [args: OmitTraceContext<FuncRef["_args"]>];
+
+/**
+ * The mutations created by `tracer.frontendApi()`, e.g. `api.tracer`.
+ */
+export type FrontendTracingApi = {
+  startFrontendSpan: FunctionReference<
+    "mutation",
+    "public",
+    FrontendSpanStart,
+    TraceContext
+  >;
+  finishFrontendSpan: FunctionReference<
+    "mutation",
+    "public",
+    FrontendSpanFinish,
+    null
+  >;
+  importQueryTrace: FunctionReference<
+    "mutation",
+    "public",
+    { snapshot: TraceSnapshot },
+    string | null
+  >;
+};
+
+export interface FrontendSpanAPI {
+  /**
+   * The context of this span, undefined if it could not be started.
+   * Pass it as `__traceContext` to nest backend calls made outside of
+   * the traced callback, or while another `trace()` call is running.
+   */
+  readonly context: TraceContext | undefined;
+  info(message: string, metadata?: Record<string, any>): void;
+  warn(message: string, metadata?: Record<string, any>): void;
+  error(message: string, metadata?: Record<string, any>): void;
+  updateMetadata(metadata: Record<string, any>): void;
+  withSpan<T>(
+    spanName: string,
+    fn: (span: FrontendSpanAPI) => Promise<T>,
+  ): Promise<T>;
+}